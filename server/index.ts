@@ -0,0 +1,80 @@
+/**
+ * Standalone server: the `/api/quint/*` endpoints plus the built app from
+ * `dist/`, so a production build can run Quint without the Vite dev server.
+ *
+ *   npm run build && npm run build:server && npm start
+ *
+ * Configured through the environment: PORT (default 8787), HOST (default
+ * localhost; use 0.0.0.0 to share the instance) and DIST (default ./dist).
+ */
+import { createServer, type IncomingMessage, type ServerResponse } from 'http'
+import { readFile, stat } from 'fs/promises'
+import { extname, join, normalize, resolve, sep } from 'path'
+import { quintApiMiddleware } from './quintApi'
+
+const PORT = Number(process.env.PORT) || 8787
+const HOST = process.env.HOST || 'localhost'
+const DIST = resolve(process.env.DIST || 'dist')
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+}
+
+/** Path of a built asset for a request URL, or null if it is malformed or escapes DIST */
+function assetPath(url: string): string | null {
+  let pathname: string
+  try {
+    pathname = decodeURIComponent(new URL(url, 'http://localhost').pathname)
+  } catch {
+    // A bad `%` escape
+    return null
+  }
+  const file = normalize(join(DIST, pathname))
+  return file === DIST || file.startsWith(DIST + sep) ? file : null
+}
+
+async function serveStatic(req: IncomingMessage, res: ServerResponse) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.statusCode = 405
+    return res.end()
+  }
+  let file = assetPath(req.url ?? '/')
+  if (!file) {
+    res.statusCode = 403
+    return res.end()
+  }
+  // Unknown paths fall back to the app shell
+  if (!(await stat(file).then((s) => s.isFile()).catch(() => false))) {
+    file = join(DIST, 'index.html')
+  }
+  try {
+    const content = await readFile(file)
+    res.setHeader('Content-Type', MIME_TYPES[extname(file)] ?? 'application/octet-stream')
+    res.end(req.method === 'HEAD' ? undefined : content)
+  } catch {
+    res.statusCode = 404
+    res.end(`Not found. Run "npm run build" to create ${DIST}`)
+  }
+}
+
+/** Answer with a 500 rather than let one failed request take the whole server down */
+function failRequest(res: ServerResponse, error: unknown) {
+  console.error(error)
+  if (!res.headersSent) res.statusCode = 500
+  res.end()
+}
+
+createServer((req, res) => {
+  quintApiMiddleware(req, res, () => {
+    serveStatic(req, res).catch((e) => failRequest(res, e))
+  }).catch((e) => failRequest(res, e))
+}).listen(PORT, HOST, () => {
+  console.log(`Quint Whiteboard on http://${HOST}:${PORT} (serving ${DIST})`)
+})
@@ -0,0 +1,365 @@
+import { spawn } from 'child_process'
+import { randomBytes } from 'crypto'
+import { readFile, readdir, writeFile, mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { IncomingMessage, ServerResponse } from 'http'
+import { type ReplFile, closeRepl, isSessionId, replCommand } from './replSessions'
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    req.on('data', (c: Buffer) => chunks.push(c))
+    req.on('end', () => resolve(Buffer.concat(chunks).toString()))
+    req.on('error', reject)
+  })
+}
+
+/** Thrown for request bodies that can't be used, answered with a 400 */
+class BadRequestError extends Error {}
+
+/** What the endpoints read from a request body; anything but the code is checked where it is used */
+interface RequestBody {
+  code?: string
+  modules?: { name: unknown; code: string }[]
+  /** Seconds, see timeoutOf */
+  timeout?: unknown
+  [field: string]: unknown
+}
+
+/** The parsed JSON body, checked enough that the handlers can use it (throws BadRequestError) */
+function parseBody(text: string): RequestBody {
+  let body: unknown
+  try {
+    body = text ? JSON.parse(text) : {}
+  } catch {
+    throw new BadRequestError('Request body is not valid JSON')
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new BadRequestError('Request body must be a JSON object')
+  }
+  const { code, modules } = body as Record<string, unknown>
+  if (code !== undefined && typeof code !== 'string') throw new BadRequestError('"code" must be a string')
+  if (
+    modules !== undefined &&
+    !(Array.isArray(modules) && modules.every((m) => typeof m?.code === 'string'))
+  ) {
+    throw new BadRequestError('"modules" must be a list of { name, code }')
+  }
+  return body as RequestBody
+}
+
+/** Module names double as file names, so only accept plain identifiers */
+function isModuleName(name: unknown): name is string {
+  return typeof name === 'string' && /^[A-Za-z_]\w*$/.test(name)
+}
+
+/** A Quint name, possibly qualified (`M::x`) */
+const QUINT_NAME = /^[A-Za-z_]\w*(?:::[A-Za-z_]\w*)*$/
+
+/**
+ * Fields that end up in Quint's command line must not be able to add options
+ * of their own, so only names are accepted (throws BadRequestError)
+ */
+function nameField(body: RequestBody, field: string, fallback: string): string {
+  const value = body[field]
+  if (value === undefined || value === '') return fallback
+  if (typeof value !== 'string' || !QUINT_NAME.test(value)) {
+    throw new BadRequestError(`"${field}" must be a Quint name`)
+  }
+  return value
+}
+
+/** An invariant is one name or several joined with `and`, as the Run panel sends them */
+function invariantField(body: RequestBody): string {
+  const value = body.invariant
+  if (value === undefined || value === '') return 'true'
+  if (typeof value !== 'string' || !value.split(/\s+and\s+/).every((name) => QUINT_NAME.test(name))) {
+    throw new BadRequestError('"invariant" must be a Quint name or names joined with "and"')
+  }
+  return value
+}
+
+/** Tests to run: all of them (`.*`) or one by name, optionally anchored (`^name$`) */
+function matchField(body: RequestBody): string {
+  const value = body.match
+  if (value === undefined || value === '') return '.*'
+  if (typeof value !== 'string' || !(value === '.*' || /^\^?[A-Za-z_]\w*\$?$/.test(value))) {
+    throw new BadRequestError('"match" must be ".*" or a test name')
+  }
+  return value
+}
+
+/** A positive whole number such as `maxSteps` (throws BadRequestError) */
+function countField(body: RequestBody, field: string, fallback: number): number {
+  const value = body[field]
+  if (value === undefined) return fallback
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    throw new BadRequestError(`"${field}" must be a positive whole number`)
+  }
+  return value
+}
+
+/** Pull `file.qnt:line:col - error: message` locations out of Quint's output */
+function parseErrorLocations(output: string): { module: string; line: number; column: number; message: string }[] {
+  const errors = []
+  for (const m of output.matchAll(/^(.*?)([A-Za-z_]\w*)\.qnt:(\d+):(\d+) - error: (.*)$/gm)) {
+    errors.push({ module: m[2], line: Number(m[3]), column: Number(m[4]), message: m[5].trim() })
+  }
+  return errors
+}
+
+/** Seconds a Quint process may run when the request doesn't say otherwise */
+const DEFAULT_TIMEOUT = 60
+const MAX_TIMEOUT = 3600
+
+/** Per-request timeout in milliseconds, from `body.timeout` in seconds */
+function timeoutOf(body: { timeout?: unknown }, fallback = DEFAULT_TIMEOUT): number {
+  const seconds = Number(body.timeout)
+  return (Number.isFinite(seconds) && seconds > 0 ? Math.min(seconds, MAX_TIMEOUT) : fallback) * 1000
+}
+
+type OutputStream = 'stdout' | 'stderr'
+
+interface QuintRun {
+  stdout: string
+  stderr: string
+  code: number
+  timedOut: boolean
+  cancelled: boolean
+}
+
+function runQuint(
+  args: string[],
+  options: {
+    timeout: number
+    input?: string
+    /** Called with every chunk of output as it arrives */
+    onOutput?: (stream: OutputStream, text: string) => void
+    /** Kills the process when aborted (e.g. the client went away) */
+    signal?: AbortSignal
+  }
+): Promise<QuintRun> {
+  return new Promise((resolve) => {
+    const result: QuintRun = { stdout: '', stderr: '', code: 0, timedOut: false, cancelled: false }
+    const child = spawn('quint', args)
+
+    const collect = (stream: OutputStream) => (chunk: Buffer) => {
+      const text = chunk.toString()
+      result[stream] += text
+      options.onOutput?.(stream, text)
+    }
+    child.stdout.on('data', collect('stdout'))
+    child.stderr.on('data', collect('stderr'))
+
+    const timer = setTimeout(() => {
+      result.timedOut = true
+      child.kill()
+    }, options.timeout)
+    const cancel = () => {
+      result.cancelled = true
+      child.kill()
+    }
+    options.signal?.addEventListener('abort', cancel)
+
+    let done = false
+    const finish = (code: number) => {
+      if (done) return
+      done = true
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', cancel)
+      result.code = code
+      resolve(result)
+    }
+    child.on('error', (err) => {
+      result.stderr += String(err)
+      finish(1)
+    })
+    child.on('close', (code) => finish(code ?? 1))
+
+    if (options.input !== undefined) child.stdin.write(options.input)
+    child.stdin.end()
+  })
+}
+
+/**
+ * The first ITF trace Quint wrote into `dir`. With several traces the files
+ * get numbered, so look for anything named like `trace*.itf.json`.
+ */
+async function readTrace(dir: string): Promise<unknown> {
+  const files = (await readdir(dir).catch(() => [] as string[]))
+    .filter((f) => /^trace.*\.itf\.json$/.test(f))
+    .sort()
+  if (files.length === 0) return undefined
+  return readFile(join(dir, files[0]), 'utf8').then(JSON.parse).catch(() => undefined)
+}
+
+/** Process output, followed by the reason it stopped early if it did */
+function describeRun(run: QuintRun, timeout: number): string {
+  const output = run.stdout || run.stderr
+  const reason = run.cancelled ? 'Cancelled' : run.timedOut ? `Timed out after ${timeout / 1000}s` : ''
+  return reason ? `${output}${output ? '\n\n' : ''}${reason}` : output
+}
+
+/**
+ * Connect-style middleware for the `/api/quint/*` endpoints. Shared by the
+ * Vite dev/preview servers and the standalone server in `server/index.ts`.
+ */
+export async function quintApiMiddleware(req: IncomingMessage, res: ServerResponse, next: () => void) {
+  if (!req.url?.startsWith('/api/quint')) return next()
+
+  res.setHeader('Content-Type', 'application/json')
+  let body: RequestBody
+  try {
+    body = req.method === 'POST' ? parseBody(await readBody(req)) : {}
+  } catch (e) {
+    res.statusCode = e instanceof BadRequestError ? 400 : 500
+    return res.end(JSON.stringify({ error: e instanceof Error ? e.message : String(e) }))
+  }
+
+  // Kill the Quint process if the client disconnects (e.g. Cancel)
+  const abort = new AbortController()
+  res.on('close', () => abort.abort())
+
+  // With `stream: true` the response is a server-sent event stream:
+  // `output` events ({ stream, text }) while Quint runs, then one `result`
+  const streaming = body.stream === true
+  const sendEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
+  const respond = (data: unknown) => {
+    if (!streaming) return res.end(JSON.stringify(data))
+    sendEvent('result', data)
+    res.end()
+  }
+  if (streaming) {
+    res.setHeader('Content-Type', 'text/event-stream')
+    res.setHeader('Cache-Control', 'no-cache')
+    res.flushHeaders()
+  }
+
+  const timeout = timeoutOf(body)
+  const options = {
+    timeout,
+    signal: abort.signal,
+    onOutput: streaming
+      ? (stream: OutputStream, text: string) => sendEvent('output', { stream, text })
+      : undefined,
+  }
+
+  let dir: string | undefined
+  try {
+    // REPL sessions outlive the request, so they keep their own files
+    if (req.url === '/api/quint/repl' || req.url === '/api/quint/repl/close') {
+      if (!isSessionId(body.session)) {
+        res.statusCode = 400
+        return respond({ error: 'Missing or invalid session id' })
+      }
+      if (req.url === '/api/quint/repl/close') {
+        closeRepl(body.session)
+        return respond({ ok: true, output: '' })
+      }
+      if (!isModuleName(body.module)) {
+        res.statusCode = 400
+        return respond({ error: 'Missing or invalid module name' })
+      }
+      const modules = ((body.modules ?? []) as ReplFile[]).filter((m) => isModuleName(m.name))
+      const main = { name: body.module, code: body.code ?? '' }
+      return respond(await replCommand(body.session, main, modules, String(body.input ?? ''), timeoutOf(body, 30)))
+    }
+
+    dir = await mkdtemp(join(tmpdir(), 'quint-wb-'))
+    const file = join(dir, isModuleName(body.module) ? `${body.module}.qnt` : 'spec.qnt')
+    // Write the other workspace modules next to it so imports resolve
+    for (const m of (body.modules ?? []) as { name: string; code: string }[]) {
+      if (isModuleName(m.name)) await writeFile(join(dir, `${m.name}.qnt`), m.code || '')
+    }
+    await writeFile(file, body.code || '')
+
+    let result: QuintRun
+
+    if (req.url === '/api/quint/typecheck') {
+      result = await runQuint(['typecheck', file], options)
+      respond({
+        ok: result.code === 0,
+        output: result.code === 0 ? 'Typecheck passed' : result.stderr || result.stdout,
+        errors: result.code === 0 ? [] : parseErrorLocations(result.stderr + '\n' + result.stdout),
+      })
+
+    } else if (req.url === '/api/quint/run') {
+      const init = nameField(body, 'init', 'init')
+      const step = nameField(body, 'step', 'step')
+      const invariant = invariantField(body)
+      const maxSteps = countField(body, 'maxSteps', 20)
+      const maxSamples = countField(body, 'maxSamples', 100)
+      const nTraces = countField(body, 'nTraces', 1)
+      // Seeds are decimal or hex numbers, as printed by Quint. Pick one when
+      // none is given so that every run can be reproduced
+      const seed = /^(0x)?[0-9a-f]+$/i.test(String(body.seed ?? ''))
+        ? String(body.seed)
+        : `0x${randomBytes(6).toString('hex')}`
+      const itfFile = join(dir, 'trace.itf.json')
+      result = await runQuint([
+        'run', file,
+        '--init', init,
+        '--step', step,
+        '--invariant', invariant,
+        '--max-steps', String(maxSteps),
+        '--max-samples', String(maxSamples),
+        '--seed', seed,
+        ...(body.backend === 'rust' || body.backend === 'typescript' ? ['--backend', body.backend] : []),
+        ...(nTraces > 1 ? ['--n-traces', String(nTraces)] : []),
+        '--verbosity', '3',
+        // Structured trace, with the action taken in each step
+        '--out-itf', itfFile,
+        '--mbt',
+      ], options)
+      const trace = await readTrace(dir)
+      respond({
+        ok: result.code === 0,
+        output: describeRun(result, timeout),
+        trace,
+        seed,
+      })
+
+    } else if (req.url === '/api/quint/verify') {
+      const itfFile = join(dir, 'trace.itf.json')
+      const property = body.temporal
+        ? ['--temporal', nameField(body, 'temporal', '')]
+        : ['--invariant', invariantField(body)]
+      result = await runQuint([
+        'verify', file,
+        '--init', nameField(body, 'init', 'init'),
+        '--step', nameField(body, 'step', 'step'),
+        ...property,
+        '--max-steps', String(countField(body, 'maxSteps', 10)),
+        '--verbosity', '3',
+        // Counterexample, if the model checker finds one
+        '--out-itf', itfFile,
+      ], options)
+      const trace = await readTrace(dir)
+      respond({
+        ok: result.code === 0,
+        output: describeRun(result, timeout),
+        trace,
+      })
+
+    } else if (req.url === '/api/quint/test') {
+      const match = matchField(body)
+      result = await runQuint(['test', file, '--match', match, '--verbosity', '3'], options)
+      respond({
+        ok: result.code === 0,
+        output: describeRun(result, timeout),
+      })
+
+    } else {
+      res.statusCode = 404
+      respond({ error: 'Unknown endpoint' })
+    }
+  } catch (e) {
+    res.statusCode = e instanceof BadRequestError ? 400 : 500
+    respond({ error: e instanceof BadRequestError ? e.message : String(e) })
+  } finally {
+    if (dir) await rm(dir, { recursive: true }).catch(() => {})
+  }
+}
@@ -0,0 +1,223 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+/**
+ * Long-lived `quint repl` processes, one per browser tab. Each keeps the
+ * definitions and state built up by its commands until the module changes,
+ * which restarts it on the new code.
+ */
+
+export interface ReplFile {
+  name: string
+  code: string
+}
+
+export interface ReplReply {
+  ok: boolean
+  output: string
+  /** The session (re)started for this command, so earlier definitions and state are gone */
+  restarted: boolean
+}
+
+interface ReplSession {
+  child: ChildProcessWithoutNullStreams
+  dir: string
+  /** The files it loaded, to notice when the module changes */
+  source: string
+  /** Output since the last command was sent */
+  buffer: string
+  /** Called on every chunk of output while a command runs */
+  onOutput?: () => void
+  /** Commands run one after the other */
+  queue: Promise<unknown>
+  lastUsed: number
+  exited: boolean
+}
+
+/** Sessions idle for longer than this are closed */
+const IDLE_TIMEOUT = 15 * 60 * 1000
+const MAX_SESSIONS = 20
+
+const sessions = new Map<string, ReplSession>()
+/** Sessions whose process is still loading; they count toward MAX_SESSIONS */
+const starting = new Map<string, Promise<unknown>>()
+
+setInterval(() => {
+  for (const [id, session] of sessions) {
+    if (Date.now() - session.lastUsed > IDLE_TIMEOUT) closeRepl(id)
+  }
+}, 60 * 1000).unref()
+
+/** Session ids come from the client, and name a process, so keep them short and plain */
+export function isSessionId(id: unknown): id is string {
+  return typeof id === 'string' && /^[\w-]{1,64}$/.test(id)
+}
+
+/** Quint errors start with their phase, e.g. `static analysis error: ...` */
+function hasError(output: string): boolean {
+  return /^(?:static analysis|runtime|syntax) error\b/im.test(output)
+}
+
+/**
+ * The REPL waits for input once it prints `>>> `. For multi-line input it
+ * prints `... ` after every unfinished line, so that prompt only counts once
+ * no more output follows for a moment.
+ */
+const CONTINUE_GRACE = 300
+
+function stripPrompts(output: string): string {
+  return output.replace(/^(?:(?:>>>|\.\.\.) )+/gm, '').replace(/(?:>>>|\.\.\.) $/, '').trim()
+}
+
+/** Resolves with the output up to the next prompt, or rejects when the process exits or times out */
+function untilPrompt(session: ReplSession, timeout: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let grace: ReturnType<typeof setTimeout> | undefined
+    const done = (error?: string) => {
+      clearTimeout(timer)
+      clearTimeout(grace)
+      session.onOutput = undefined
+      const output = stripPrompts(session.buffer)
+      session.buffer = ''
+      if (error) reject(new Error(output ? `${output}\n\n${error}` : error))
+      else resolve(output)
+    }
+    const timer = setTimeout(() => {
+      session.child.kill()
+      done(`Timed out after ${timeout / 1000}s; the session was stopped`)
+    }, timeout)
+    session.onOutput = () => {
+      clearTimeout(grace)
+      if (session.exited) done('The REPL exited')
+      else if (/(?:^|\n)>>> $/.test(session.buffer)) done()
+      else if (/(?:^|\n)\.\.\. $/.test(session.buffer)) grace = setTimeout(() => done(), CONTINUE_GRACE)
+    }
+    session.onOutput()
+  })
+}
+
+async function startSession(main: ReplFile, modules: ReplFile[], source: string, timeout: number) {
+  const dir = await mkdtemp(join(tmpdir(), 'quint-repl-'))
+  for (const m of modules) await writeFile(join(dir, `${m.name}.qnt`), m.code || '')
+  const file = join(dir, `${main.name}.qnt`)
+  await writeFile(file, main.code || '')
+
+  const child = spawn('quint', ['repl', '-r', `${file}::${main.name}`])
+  const session: ReplSession = {
+    child,
+    dir,
+    source,
+    buffer: '',
+    queue: Promise.resolve(),
+    lastUsed: Date.now(),
+    exited: false,
+  }
+  const collect = (chunk: Buffer) => {
+    session.buffer += chunk.toString()
+    session.onOutput?.()
+  }
+  child.stdout.on('data', collect)
+  child.stderr.on('data', collect)
+  const exit = () => {
+    session.exited = true
+    session.onOutput?.()
+  }
+  child.on('error', (err) => {
+    session.buffer += String(err)
+    exit()
+  })
+  child.on('close', exit)
+  // Writing to a process that already exited fails with EPIPE; the command waiting on it fails instead
+  child.stdin.on('error', (err) => {
+    session.buffer += String(err)
+    exit()
+  })
+
+  // Loading the module prints the banner and any errors in it
+  const banner = await untilPrompt(session, timeout).catch((e) => {
+    rm(dir, { recursive: true }).catch(() => {})
+    throw e
+  })
+  const output = banner
+    .split('\n')
+    .filter((l) => !l.startsWith('Quint REPL') && !l.startsWith('Type "'))
+    .join('\n')
+    .trim()
+  return { session, output }
+}
+
+/** Stop a session and remove its files */
+export function closeRepl(id: string) {
+  const session = sessions.get(id)
+  if (session) closeSession(id, session)
+}
+
+/** Stop `session`, forgetting it under `id` only if it is still the one registered there */
+function closeSession(id: string, session: ReplSession) {
+  if (sessions.get(id) === session) sessions.delete(id)
+  if (!session.exited) session.child.kill()
+  rm(session.dir, { recursive: true }).catch(() => {})
+}
+
+/**
+ * Run one command in the session `id`, starting it (or restarting it when
+ * the files changed) first. An empty input just loads the module.
+ */
+export async function replCommand(
+  id: string,
+  main: ReplFile,
+  modules: ReplFile[],
+  input: string,
+  timeout: number
+): Promise<ReplReply> {
+  const source = JSON.stringify([main, modules])
+  // Wait for a start of this session that another request began, rather than
+  // spawning a second process. From here to `starting.set` nothing awaits
+  while (starting.has(id)) await starting.get(id)!.catch(() => {})
+
+  let session = sessions.get(id)
+  let restarted = false
+  let startup = ''
+  if (!session || session.exited || session.source !== source) {
+    closeRepl(id)
+    if (sessions.size + starting.size >= MAX_SESSIONS) {
+      const oldest = [...sessions].sort((a, b) => a[1].lastUsed - b[1].lastUsed)[0]
+      if (!oldest) return { ok: false, output: 'Too many REPL sessions are starting; try again', restarted: false }
+      closeRepl(oldest[0])
+    }
+    const start = startSession(main, modules, source, timeout)
+    starting.set(id, start)
+    try {
+      const started = await start
+      session = started.session
+      startup = started.output
+      sessions.set(id, session)
+    } catch (e) {
+      return { ok: false, output: e instanceof Error ? e.message : String(e), restarted: true }
+    } finally {
+      starting.delete(id)
+    }
+    restarted = true
+  }
+
+  const current = session
+  current.lastUsed = Date.now()
+  const run = current.queue.then(async (): Promise<ReplReply> => {
+    if (!input.trim()) return { ok: !hasError(startup), output: startup, restarted }
+    try {
+      if (current.exited) throw new Error('The REPL exited')
+      current.child.stdin.write(`${input.trimEnd()}\n`)
+      const output = await untilPrompt(current, timeout)
+      const combined = [startup, output].filter(Boolean).join('\n')
+      return { ok: !hasError(combined), output: combined, restarted }
+    } catch (e) {
+      // Another request may have restarted the session under this id meanwhile
+      closeSession(id, current)
+      return { ok: false, output: e instanceof Error ? e.message : String(e), restarted }
+    }
+  })
+  current.queue = run.catch(() => {})
+  return run
+}
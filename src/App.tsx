@@ -5,8 +5,16 @@ import WhiteboardCanvas from './components/Canvas/WhiteboardCanvas'
 import Toolbar from './components/Panels/Toolbar'
 import PropertyPanel from './components/Panels/PropertyPanel'
 import CodePreview from './components/Panels/CodePreview'
+import ModuleTabs from './components/Panels/ModuleTabs'
+import ReplayBar from './components/Panels/ReplayBar'
+import ProjectMenu from './components/Panels/ProjectMenu'
 import ExecutionPanel, { type ExecResult, RunResultModal } from './components/Panels/ExecutionPanel'
+import { StateGraphModal } from './components/Panels/StateGraphModal'
+import RecoveryScreen from './components/Panels/RecoveryScreen'
 import { useAppStore } from './model/store'
+import { getLoadIssue } from './model/persistence'
+import type { RunRecord } from './model/runConfigs'
+import type { StateGraph } from './model/stateGraph'
 
 export default function App() {
   const undo = useAppStore((s) => s.undo)
@@ -15,6 +23,12 @@ export default function App() {
   const setPanelWidth = useAppStore((s) => s.setPanelWidth)
   const [showExec, setShowExec] = useState(false)
   const [runResult, setRunResult] = useState<ExecResult | null>(null)
+  /** Run to repeat once the execution panel is open */
+  const [rerun, setRerun] = useState<RunRecord | null>(null)
+  const clearRerun = useCallback(() => setRerun(null), [])
+  const [stateGraph, setStateGraph] = useState<StateGraph | null>(null)
+  /** Problem with the saved whiteboard, found when the store loaded */
+  const [loadIssue, setLoadIssue] = useState(getLoadIssue)
 
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
@@ -42,6 +56,10 @@ export default function App() {
     return () => window.removeEventListener('keydown', handleKeyDown)
   }, [handleKeyDown])
 
+  if (loadIssue) {
+    return <RecoveryScreen issue={loadIssue} onResolved={() => setLoadIssue(null)} />
+  }
+
   return (
     <ReactFlowProvider>
       <div
@@ -58,11 +76,16 @@ export default function App() {
           <WhiteboardCanvas />
           <Toolbar showExec={showExec} onToggleExec={() => setShowExec((v) => !v)} />
           <CodePreview />
+          <ModuleTabs />
+          <ReplayBar />
           {showExec && (
             <ExecutionPanel
               panelWidth={panelWidth}
               onClose={() => setShowExec(false)}
               onRunResult={setRunResult}
+              rerun={rerun}
+              onRerunStarted={clearRerun}
+              onStateGraph={setStateGraph}
             />
           )}
           {/* Title */}
@@ -105,6 +128,7 @@ export default function App() {
             >
               Quint Whiteboard
             </span>
+            <ProjectMenu />
           </div>
         </div>
 
@@ -114,7 +138,21 @@ export default function App() {
 
       {/* Run results modal */}
       {runResult && createPortal(
-        <RunResultModal result={runResult} onClose={() => setRunResult(null)} />,
+        <RunResultModal
+          result={runResult}
+          onClose={() => setRunResult(null)}
+          onRerun={(run) => {
+            setRunResult(null)
+            setRerun(run)
+            setShowExec(true)
+          }}
+        />,
+        document.body
+      )}
+
+      {/* Reachable state graph */}
+      {stateGraph && createPortal(
+        <StateGraphModal graph={stateGraph} onClose={() => setStateGraph(null)} />,
         document.body
       )}
     </ReactFlowProvider>
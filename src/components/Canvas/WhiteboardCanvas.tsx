@@ -1,4 +1,4 @@
-import { useCallback, useRef } from 'react'
+import { useCallback, useEffect, useMemo, useRef } from 'react'
 import {
   ReactFlow,
   Background,
@@ -8,8 +8,12 @@ import {
   type ReactFlowInstance,
   type OnSelectionChangeFunc,
 } from '@xyflow/react'
+import { useShallow } from 'zustand/react/shallow'
 import { useAppStore, type AnyNodeData } from '../../model/store'
-import type { DeclNodeData } from '../../model/spec'
+import type { DeclNodeData, VisualDeclaration } from '../../model/spec'
+import { quintApi } from '../../model/api'
+import { mapDiagnostics } from '../../model/diagnostics'
+import { dependencyEdges } from '../../model/dependencies'
 import {
   StateVarNode,
   ConstNode,
@@ -17,6 +21,8 @@ import {
   ActionNode,
   ValNode,
   DefNode,
+  RunNode,
+  TemporalNode,
   RoleGroupNode,
 } from '../Nodes/DeclNodes'
 import type { Node } from '@xyflow/react'
@@ -28,18 +34,77 @@ const nodeTypes = {
   action: ActionNode,
   val: ValNode,
   def: DefNode,
+  run: RunNode,
+  temporal: TemporalNode,
   'role-group': RoleGroupNode,
 }
 
+/** Delay after the last edit before the module is typechecked in the background */
+const DIAGNOSTICS_DELAY = 1200
+
+/** Typecheck the active module after edits and attach errors to the nodes at fault */
+function useLiveDiagnostics() {
+  const getQuintCodeWithSourceMap = useAppStore((s) => s.getQuintCodeWithSourceMap)
+  const getWorkspaceFiles = useAppStore((s) => s.getWorkspaceFiles)
+  const setDiagnostics = useAppStore((s) => s.setDiagnostics)
+
+  // Only declaration content matters; dragging nodes around keeps each node's
+  // data object, so it must not retrigger
+  const moduleName = useAppStore((s) => s.moduleName)
+  const imports = useAppStore((s) => s.imports)
+  const decls = useAppStore(useShallow((s) => declsOf(s.nodes)))
+
+  useEffect(() => {
+    if (decls.length === 0) {
+      setDiagnostics({}, [])
+      return
+    }
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const { code, sourceMap } = getQuintCodeWithSourceMap()
+      try {
+        const result = await quintApi('typecheck', {
+          code,
+          module: moduleName,
+          modules: getWorkspaceFiles(),
+        })
+        if (cancelled) return
+        const { byNode, unmapped } = mapDiagnostics(result.errors ?? [], moduleName, sourceMap, decls)
+        setDiagnostics(byNode, unmapped)
+      } catch {
+        // The Quint API is unavailable (e.g. static hosting); keep quiet
+      }
+    }, DIAGNOSTICS_DELAY)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [moduleName, imports, decls, getQuintCodeWithSourceMap, getWorkspaceFiles, setDiagnostics])
+}
+
+function declsOf(nodes: Node<AnyNodeData>[]): VisualDeclaration[] {
+  return nodes.filter((n) => n.type !== 'role-group').map((n) => n.data as VisualDeclaration)
+}
+
 export default function WhiteboardCanvas() {
+  useLiveDiagnostics()
+
   const nodes = useAppStore((s) => s.nodes)
-  const edges = useAppStore((s) => s.edges)
+  const manualEdges = useAppStore((s) => s.edges)
+  const showDependencies = useAppStore((s) => s.showDependencies)
   const onNodesChange = useAppStore((s) => s.onNodesChange)
   const onEdgesChange = useAppStore((s) => s.onEdgesChange)
   const onConnect = useAppStore((s) => s.onConnect)
   const addDeclNode = useAppStore((s) => s.addDeclNode)
   const setSelectedNode = useAppStore((s) => s.setSelectedNode)
 
+  // Derived edges only depend on declaration content, not on node positions
+  const decls = useAppStore(useShallow((s) => declsOf(s.nodes)))
+  const edges = useMemo(
+    () => [...manualEdges, ...dependencyEdges(decls, showDependencies)],
+    [manualEdges, decls, showDependencies]
+  )
+
   const reactFlowInstance = useRef<ReactFlowInstance<Node<AnyNodeData>> | null>(null)
 
   const onPaneClick = useCallback(() => {
@@ -120,6 +185,8 @@ export default function WhiteboardCanvas() {
               def: '#a78bfa',
               action: '#fb923c',
               type: '#f472b6',
+              run: '#2dd4bf',
+              temporal: '#e879f9',
             }
             return colorMap[kind] || '#7c5cfc'
           }}
@@ -1,7 +1,8 @@
 import { memo, useCallback, useRef, useState } from 'react'
 import { Handle, Position, type NodeProps } from '@xyflow/react'
-import type { DeclNodeData, RoleGroupData } from '../../model/spec'
+import type { DeclNodeData, Param, RoleGroupData } from '../../model/spec'
 import { useAppStore } from '../../model/store'
+import { type ItfValue, actionTaken, formatItfValue } from '../../model/itf'
 
 // ─── Colors ────────────────────────────────────────────────────
 const COLORS = {
@@ -14,14 +15,23 @@ const COLORS = {
   actionStep: '#fb923c',
   invariant: '#facc15',
   type: '#f472b6',
+  run: '#2dd4bf',
+  temporal: '#e879f9',
 }
 
+const VIOLATED = '#f87171'
+
 const ROLE_BADGES: Record<string, { label: string; color: string }> = {
   init: { label: 'INIT', color: '#4ade80' },
   step: { label: 'STEP', color: '#fb923c' },
   invariant: { label: 'INV', color: '#facc15' },
 }
 
+const TEST_BADGES = {
+  pass: { label: 'PASS', color: '#4ade80' },
+  fail: { label: 'FAIL', color: '#f87171' },
+}
+
 // ─── Shared styles ─────────────────────────────────────────────
 
 function useNodeSelection(id: string) {
@@ -40,6 +50,63 @@ function useNodeSelection(id: string) {
   return { isSelected, handleClick }
 }
 
+/** The trace state shown on the canvas while replaying, or null */
+function useReplayState() {
+  return useAppStore((s) => (s.replay ? s.replay.trace.states[s.replay.step] ?? null : null))
+}
+
+/** Whether the replayed trace ends in a violation of this invariant and the last step is shown */
+function useReplayViolated(name: string) {
+  return useAppStore((s) => {
+    const r = s.replay
+    return !!r && r.step === r.trace.states.length - 1 && r.violated.includes(name)
+  })
+}
+
+/**
+ * Corner badge counting the typecheck errors attributed to this node (red),
+ * or its static check warnings (amber) when there are no errors.
+ */
+function DiagnosticBadge({ id }: { id: string }) {
+  const diagnostics = useAppStore((s) => s.diagnostics[id])
+  const warnings = useAppStore((s) => s.warnings[id])
+  const errorCount = diagnostics?.length ?? 0
+  const warningCount = warnings?.length ?? 0
+  if (errorCount === 0 && warningCount === 0) return null
+
+  const color = errorCount > 0 ? '#f87171' : '#fbbf24'
+  const lines = [
+    ...(diagnostics ?? []).map((d) => `Body line ${d.bodyLine}: ${d.message}`),
+    ...(warnings ?? []).map((w) => `Warning: ${w}`),
+  ]
+
+  return (
+    <span
+      title={lines.join('\n')}
+      style={{
+        position: 'absolute',
+        top: -8,
+        right: -8,
+        minWidth: 18,
+        height: 18,
+        padding: '0 5px',
+        borderRadius: 9,
+        background: color,
+        color: '#14102a',
+        fontSize: 10,
+        fontWeight: 700,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        boxShadow: `0 0 8px ${color}80`,
+        zIndex: 1,
+      }}
+    >
+      {errorCount > 0 ? errorCount : '!'}
+    </span>
+  )
+}
+
 function NodeHandles() {
   return (
     <>
@@ -57,12 +124,15 @@ function PillNode({
   kindLabel,
   name,
   typeAnnotation,
+  replayValue,
 }: {
   id: string
   color: string
   kindLabel: string
   name: string
   typeAnnotation?: string
+  /** Value of this variable in the replayed trace step */
+  replayValue?: string
 }) {
   const { isSelected, handleClick } = useNodeSelection(id)
 
@@ -83,9 +153,11 @@ function PillNode({
           : '0 4px 16px rgba(0,0,0,0.3)',
         transition: 'border-color 0.2s, box-shadow 0.2s',
         cursor: 'pointer',
+        position: 'relative',
       }}
     >
       <NodeHandles />
+      <DiagnosticBadge id={id} />
       <span
         style={{
           fontSize: 10,
@@ -123,6 +195,27 @@ function PillNode({
           : {typeAnnotation}
         </span>
       )}
+      {replayValue !== undefined && (
+        <span
+          style={{
+            fontSize: 12,
+            fontWeight: 600,
+            color,
+            background: color + '14',
+            border: `1px solid ${color}44`,
+            padding: '2px 8px',
+            borderRadius: 10,
+            fontFamily: "'JetBrains Mono', monospace",
+            maxWidth: 320,
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+          }}
+          title={replayValue}
+        >
+          = {replayValue}
+        </span>
+      )}
     </div>
   )
 }
@@ -137,33 +230,41 @@ function CardNode({
   params,
   body,
   roleBadge,
+  highlighted,
 }: {
   id: string
   color: string
   kindLabel: string
   name: string
-  params?: string
+  params?: Param[]
   body?: string
   roleBadge?: { label: string; color: string } | null
+  /** Glow as if selected, e.g. for the action fired in the replayed step */
+  highlighted?: boolean
 }) {
   const { isSelected, handleClick } = useNodeSelection(id)
+  const isLit = isSelected || highlighted
 
   return (
     <div
       onClick={handleClick}
       style={{
         background: '#14102a',
-        border: `2px solid ${isSelected ? color : '#2a1f4e'}`,
+        border: `2px solid ${isLit ? color : '#2a1f4e'}`,
         borderRadius: 12,
         minWidth: 180,
-        boxShadow: isSelected
-          ? `0 0 16px ${color}33, 0 4px 20px rgba(0,0,0,0.4)`
-          : '0 4px 20px rgba(0,0,0,0.3)',
+        boxShadow: highlighted
+          ? `0 0 28px ${color}88, 0 4px 20px rgba(0,0,0,0.4)`
+          : isSelected
+            ? `0 0 16px ${color}33, 0 4px 20px rgba(0,0,0,0.4)`
+            : '0 4px 20px rgba(0,0,0,0.3)',
         transition: 'border-color 0.2s, box-shadow 0.2s',
         cursor: 'pointer',
+        position: 'relative',
       }}
     >
       <NodeHandles />
+      <DiagnosticBadge id={id} />
 
       {/* Header */}
       <div
@@ -202,7 +303,7 @@ function CardNode({
         >
           {name || 'unnamed'}
         </span>
-        {params && (
+        {params && params.length > 0 && (
           <span
             style={{
               fontSize: 12,
@@ -210,7 +311,15 @@ function CardNode({
               fontFamily: "'JetBrains Mono', monospace",
             }}
           >
-            ({params})
+            (
+            {params.map((p, i) => (
+              <span key={i}>
+                {i > 0 && ', '}
+                <span style={{ color: '#b0a8d0' }}>{p.name}</span>
+                {p.type && `: ${p.type}`}
+              </span>
+            ))}
+            )
           </span>
         )}
         {roleBadge && (
@@ -261,32 +370,36 @@ function ShieldNode({
   id,
   name,
   body,
+  violated,
 }: {
   id: string
   name: string
   body?: string
+  violated?: boolean
 }) {
   const { isSelected, handleClick } = useNodeSelection(id)
-  const color = COLORS.invariant
+  const color = violated ? VIOLATED : COLORS.invariant
+  const isLit = isSelected || violated
 
   return (
     <div
       onClick={handleClick}
       style={{
         background: '#14102a',
-        border: `2px solid ${isSelected ? color : '#2a1f4e'}`,
+        border: `2px solid ${isLit ? color : '#2a1f4e'}`,
         borderRadius: 12,
         minWidth: 180,
         maxWidth: 320,
-        boxShadow: isSelected
-          ? `0 0 16px ${color}33, 0 4px 20px rgba(0,0,0,0.4)`
+        boxShadow: isLit
+          ? `0 0 16px ${color}${violated ? '88' : '33'}, 0 4px 20px rgba(0,0,0,0.4)`
           : '0 4px 20px rgba(0,0,0,0.3)',
         transition: 'border-color 0.2s, box-shadow 0.2s',
-        overflow: 'hidden',
         cursor: 'pointer',
+        position: 'relative',
       }}
     >
       <NodeHandles />
+      <DiagnosticBadge id={id} />
 
       {/* Header with shield icon */}
       <div
@@ -297,6 +410,7 @@ function ShieldNode({
           padding: '8px 14px',
           background: `linear-gradient(135deg, ${color}18, ${color}08)`,
           borderBottom: '1px solid #2a1f4e',
+          borderRadius: '10px 10px 0 0',
         }}
       >
         <span style={{ fontSize: 14 }}>{'\u{1F6E1}'}</span>
@@ -313,7 +427,7 @@ function ShieldNode({
             letterSpacing: '0.05em',
           }}
         >
-          INV
+          {violated ? 'VIOLATED' : 'INV'}
         </span>
         <span
           style={{
@@ -351,6 +465,7 @@ function ShieldNode({
 
 function StateVarNodeInner({ data, id }: NodeProps) {
   const d = data as unknown as DeclNodeData
+  const state = useReplayState()
   return (
     <PillNode
       id={id}
@@ -358,6 +473,7 @@ function StateVarNodeInner({ data, id }: NodeProps) {
       kindLabel="var"
       name={d.name}
       typeAnnotation={d.type}
+      replayValue={state ? formatItfValue(state[d.name] as ItfValue | undefined) : undefined}
     />
   )
 }
@@ -377,6 +493,22 @@ function ConstNodeInner({ data, id }: NodeProps) {
 
 function TypeNodeInner({ data, id }: NodeProps) {
   const d = data as unknown as DeclNodeData
+  // Structured types list one variant or field per line
+  if (d.typeDef) {
+    const rows =
+      d.typeDef.kind === 'sum'
+        ? d.typeDef.variants.map((v) => `| ${v.name}${v.payload ? `(${v.payload})` : ''}`)
+        : d.typeDef.fields.map((f) => `${f.name}: ${f.type}`)
+    return (
+      <CardNode
+        id={id}
+        color={COLORS.type}
+        kindLabel={d.typeDef.kind === 'sum' ? 'type' : 'record'}
+        name={d.name}
+        body={rows.join('\n')}
+      />
+    )
+  }
   return (
     <PillNode
       id={id}
@@ -392,6 +524,7 @@ function ActionNodeInner({ data, id }: NodeProps) {
   const d = data as unknown as DeclNodeData
   const actionColor = d.role === 'init' ? COLORS.actionInit : COLORS.actionStep
   const roleBadge = d.role ? ROLE_BADGES[d.role] : null
+  const state = useReplayState()
 
   return (
     <CardNode
@@ -402,15 +535,17 @@ function ActionNodeInner({ data, id }: NodeProps) {
       params={d.params}
       body={d.body}
       roleBadge={roleBadge}
+      highlighted={!!state && actionTaken(state) === d.name}
     />
   )
 }
 
 function ValNodeInner({ data, id }: NodeProps) {
   const d = data as unknown as DeclNodeData
+  const violated = useReplayViolated(d.name)
   // If it has an invariant role, render as shield
   if (d.role === 'invariant') {
-    return <ShieldNode id={id} name={d.name} body={d.body} />
+    return <ShieldNode id={id} name={d.name} body={d.body} violated={violated} />
   }
 
   return (
@@ -426,14 +561,46 @@ function ValNodeInner({ data, id }: NodeProps) {
 
 function DefNodeInner({ data, id }: NodeProps) {
   const d = data as unknown as DeclNodeData
+  const violated = useReplayViolated(d.name)
   return (
     <CardNode
       id={id}
-      color={COLORS.def}
+      color={violated ? VIOLATED : COLORS.def}
       kindLabel="def"
       name={d.name}
       params={d.params}
       body={d.body}
+      highlighted={violated}
+    />
+  )
+}
+
+function RunNodeInner({ data, id }: NodeProps) {
+  const d = data as unknown as DeclNodeData
+  const result = useAppStore((s) => s.testResults[d.name])
+  return (
+    <CardNode
+      id={id}
+      color={COLORS.run}
+      kindLabel="run"
+      name={d.name}
+      body={d.body}
+      roleBadge={result ? (result.ok ? TEST_BADGES.pass : TEST_BADGES.fail) : null}
+    />
+  )
+}
+
+function TemporalNodeInner({ data, id }: NodeProps) {
+  const d = data as unknown as DeclNodeData
+  const violated = useReplayViolated(d.name)
+  return (
+    <CardNode
+      id={id}
+      color={violated ? VIOLATED : COLORS.temporal}
+      kindLabel="temporal"
+      name={d.name}
+      body={d.body}
+      highlighted={violated}
     />
   )
 }
@@ -627,4 +794,6 @@ export const TypeNode = memo(TypeNodeInner)
 export const ActionNode = memo(ActionNodeInner)
 export const ValNode = memo(ValNodeInner)
 export const DefNode = memo(DefNodeInner)
+export const RunNode = memo(RunNodeInner)
+export const TemporalNode = memo(TemporalNodeInner)
 export const RoleGroupNode = memo(RoleGroupNodeInner)
@@ -1,31 +1,94 @@
-import { useMemo, useCallback } from 'react'
+import { useMemo, useCallback, useEffect, useRef, useState } from 'react'
 import { useAppStore } from '../../model/store'
 
+/** Delay after the last keystroke before edited code is applied to the canvas */
+const SYNC_DELAY = 600
+
 export default function CodePreview() {
   const showCodePreview = useAppStore((s) => s.showCodePreview)
   const getQuintCode = useAppStore((s) => s.getQuintCode)
+  const syncFromQuint = useAppStore((s) => s.syncFromQuint)
   const nodes = useAppStore((s) => s.nodes)
   const moduleName = useAppStore((s) => s.moduleName)
+  const imports = useAppStore((s) => s.imports)
+
+  const code = useMemo(() => getQuintCode(), [nodes, moduleName, imports, getQuintCode])
+
+  // While editing, the draft is the source of truth and is pushed to the
+  // store after a pause; otherwise the view follows the generated code.
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState('')
+  const [syncError, setSyncError] = useState<string | null>(null)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  /** Push `text` to the canvas; false (with the error shown) when it doesn't parse */
+  const applyDraft = useCallback(
+    (text: string) => {
+      try {
+        syncFromQuint(text)
+        setSyncError(null)
+        return true
+      } catch (e) {
+        setSyncError(e instanceof Error ? e.message : String(e))
+        return false
+      }
+    },
+    [syncFromQuint]
+  )
+
+  const handleDraftChange = useCallback(
+    (text: string) => {
+      setDraft(text)
+      if (timerRef.current) clearTimeout(timerRef.current)
+      timerRef.current = setTimeout(() => applyDraft(text), SYNC_DELAY)
+    },
+    [applyDraft]
+  )
+
+  const startEditing = useCallback(() => {
+    setDraft(code)
+    setSyncError(null)
+    setEditing(true)
+  }, [code])
+
+  const stopEditing = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+    timerRef.current = null
+    // Keep the draft and its parse error on screen rather than dropping the edits
+    if (applyDraft(draft)) setEditing(false)
+  }, [applyDraft, draft])
+
+  /** Leave edit mode without the unparsed draft; the canvas keeps the last text that parsed */
+  const discardDraft = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+    timerRef.current = null
+    setSyncError(null)
+    setEditing(false)
+  }, [])
 
-  const code = useMemo(() => getQuintCode(), [nodes, moduleName, getQuintCode])
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+  }, [])
+
+  const shownCode = editing ? draft : code
 
   const handleDownload = useCallback(() => {
-    const blob = new Blob([code], { type: 'text/plain' })
+    const blob = new Blob([shownCode], { type: 'text/plain' })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
     a.download = 'spec.qnt'
     a.click()
     URL.revokeObjectURL(url)
-  }, [code])
+  }, [shownCode])
 
   const handleCopy = useCallback(() => {
-    navigator.clipboard.writeText(code)
-  }, [code])
+    navigator.clipboard.writeText(shownCode)
+  }, [shownCode])
 
   if (!showCodePreview) return null
 
-  const hasCode = nodes.length > 0
+  const hasCode = nodes.length > 0 || editing
 
   return (
     <div
@@ -35,7 +98,7 @@ export default function CodePreview() {
         left: '50%',
         transform: 'translateX(-50%)',
         width: 'min(700px, 90vw)',
-        maxHeight: 300,
+        maxHeight: editing ? 480 : 300,
         background: '#110d1f',
         border: '1px solid #2a1f4e',
         borderRadius: 12,
@@ -67,7 +130,7 @@ export default function CodePreview() {
               letterSpacing: '0.08em',
             }}
           >
-            Generated Quint
+            {editing ? 'Editing Quint' : 'Generated Quint'}
           </span>
           {hasCode && (
             <span
@@ -85,14 +148,40 @@ export default function CodePreview() {
           )}
         </div>
         <div style={{ display: 'flex', gap: 4 }}>
+          {editing && syncError && <PreviewButton onClick={discardDraft} label="Discard" />}
+          <PreviewButton
+            onClick={editing ? stopEditing : startEditing}
+            label={editing ? 'Done' : 'Edit'}
+          />
           <PreviewButton onClick={handleCopy} label="Copy" />
           <PreviewButton onClick={handleDownload} label="Download" accent />
         </div>
       </div>
 
       {/* Code */}
-      <div style={{ overflow: 'auto', padding: '12px 16px', flex: 1 }}>
-        {hasCode ? (
+      <div style={{ overflow: 'auto', padding: '12px 16px', flex: 1, display: editing ? 'flex' : 'block' }}>
+        {editing ? (
+          <textarea
+            value={draft}
+            onChange={(e) => handleDraftChange(e.target.value)}
+            spellCheck={false}
+            autoFocus
+            style={{
+              flex: 1,
+              minHeight: 220,
+              margin: 0,
+              background: 'transparent',
+              border: 'none',
+              outline: 'none',
+              resize: 'none',
+              fontFamily: "'JetBrains Mono', monospace",
+              fontSize: 12,
+              lineHeight: 1.6,
+              color: '#e4e4f0',
+              whiteSpace: 'pre',
+            }}
+          />
+        ) : hasCode ? (
           <pre
             style={{
               margin: 0,
@@ -120,6 +209,22 @@ export default function CodePreview() {
           </div>
         )}
       </div>
+
+      {/* Sync status while editing */}
+      {editing && (
+        <div
+          style={{
+            padding: '6px 14px',
+            borderTop: '1px solid #2a1f4e',
+            fontSize: 11,
+            fontFamily: syncError ? "'JetBrains Mono', monospace" : 'inherit',
+            color: syncError ? '#f87171' : '#5a4d80',
+            flexShrink: 0,
+          }}
+        >
+          {syncError ?? 'Changes are applied to the canvas as you type. Generated init/step and test runs are recreated from the nodes.'}
+        </div>
+      )}
     </div>
   )
 }
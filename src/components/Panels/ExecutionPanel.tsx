@@ -1,99 +1,258 @@
-import { useState, useCallback, useEffect } from 'react'
-import { createPortal } from 'react-dom'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { useAppStore } from '../../model/store'
+import type { VisualDeclaration } from '../../model/spec'
+import { type QuintResponse, quintApi, quintStream } from '../../model/api'
+import { type ItfTrace, traceToTable } from '../../model/itf'
+import ExplorerPanel from './ExplorerPanel'
+import type { StateGraph } from '../../model/stateGraph'
+import ReplConsole from './ReplConsole'
+import { type TestResult, parseTestOutput, testNames } from '../../model/tests'
+import {
+  type QuintBackend,
+  type RunConfig,
+  type RunHistoryEntry,
+  type RunRecord,
+  DEFAULT_RUN_CONFIG,
+  checkedInvariants,
+  invariantNames,
+  runOptions,
+} from '../../model/runConfigs'
 
-type TabId = 'typecheck' | 'eval' | 'run'
+type TabId = 'typecheck' | 'repl' | 'run' | 'verify' | 'explore' | 'tests'
 
 export interface ExecResult {
   ok: boolean
   output: string
+  trace?: ItfTrace
+  /** Set for `quint verify` results: the property that was checked */
+  verified?: { property: string; temporal: boolean }
+  /** Seed the simulator used, as reported by the server */
+  seed?: string
+  /** Set for `quint run` results: what to send to run it again */
+  run?: RunRecord
 }
 
-async function quintApi(endpoint: string, body: object): Promise<ExecResult> {
-  const res = await fetch(`/api/quint/${endpoint}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
-  })
-  return res.json()
+/** Seconds before the server kills a run, unless changed in the panel */
+const DEFAULT_TIMEOUT = 60
+
+/** Default `--max-steps` for the model checker, which is far costlier than simulation */
+const DEFAULT_VERIFY_STEPS = 10
+
+/**
+ * Run a long Quint command with live output. `start` resolves with the
+ * result, or null when the user cancelled it.
+ */
+function useStreamingRun() {
+  const [live, setLive] = useState('')
+  const [elapsed, setElapsed] = useState(0)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Abandoning the panel mid-run also stops the process
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const start = useCallback(async (endpoint: string, body: object): Promise<QuintResponse | null> => {
+    const abort = new AbortController()
+    abortRef.current = abort
+    setLive('')
+    setElapsed(0)
+    const started = Date.now()
+    const timer = setInterval(() => setElapsed(Math.floor((Date.now() - started) / 1000)), 1000)
+    try {
+      return await quintStream(endpoint, body, (_, text) => setLive((prev) => prev + text), abort.signal)
+    } catch (e) {
+      if (abort.signal.aborted) return null
+      throw e
+    } finally {
+      clearInterval(timer)
+      abortRef.current = null
+    }
+  }, [])
+
+  const cancel = useCallback(() => abortRef.current?.abort(), [])
+
+  return { live, elapsed, start, cancel }
+}
+
+/** Best-effort progress from Quint's verbose output */
+function runProgress(output: string): { step?: number; samples?: number } {
+  const steps = [...output.matchAll(/\[State (\d+)\]/g)]
+  const samples = [...output.matchAll(/(\d+)\s+(?:samples|traces)\b/g)]
+  return {
+    step: steps.length > 0 ? Number(steps[steps.length - 1][1]) : undefined,
+    samples: samples.length > 0 ? Number(samples[samples.length - 1][1]) : undefined,
+  }
+}
+
+/** Short outcome of a simulation for the run history */
+function runSummary(result: QuintResponse): string {
+  if (result.ok) return 'Passed'
+  return result.trace || /invariant|violated/i.test(result.output) ? 'Violated' : 'Error'
 }
 
 export default function ExecutionPanel({
   panelWidth,
   onClose,
   onRunResult,
+  rerun,
+  onRerunStarted,
+  onStateGraph,
 }: {
   panelWidth: number
   onClose: () => void
   onRunResult: (result: ExecResult) => void
+  /** A previous run to repeat as soon as the panel shows it */
+  rerun?: RunRecord | null
+  onRerunStarted?: () => void
+  onStateGraph: (graph: StateGraph) => void
 }) {
   const getQuintCode = useAppStore((s) => s.getQuintCode)
+  const getWorkspaceFiles = useAppStore((s) => s.getWorkspaceFiles)
   const moduleName = useAppStore((s) => s.moduleName)
   const [tab, setTab] = useState<TabId>('run')
   const [output, setOutput] = useState<ExecResult | null>(null)
   const [loading, setLoading] = useState(false)
-  const [evalExpr, setEvalExpr] = useState('')
   const nodes = useAppStore((s) => s.nodes)
-  const [maxSamples, setMaxSamples] = useState(100)
+  const runConfigs = useAppStore((s) => s.runConfigs)
+  const activeRunConfigId = useAppStore((s) => s.activeRunConfigId)
+  const runConfig = runConfigs.find((c) => c.id === activeRunConfigId) ?? runConfigs[0] ?? DEFAULT_RUN_CONFIG
+  const [timeoutSecs, setTimeoutSecs] = useState(DEFAULT_TIMEOUT)
+  const { live, elapsed, start: startStream, cancel: cancelStream } = useStreamingRun()
+  const testResults = useAppStore((s) => s.testResults)
+  const setTestResults = useAppStore((s) => s.setTestResults)
+  /** Test being run, or '*' while running all of them */
+  const [runningTest, setRunningTest] = useState<string | null>(null)
+  const runHistory = useAppStore((s) => s.runHistory)
+  const addRunHistory = useAppStore((s) => s.addRunHistory)
+  const clearRunHistory = useAppStore((s) => s.clearRunHistory)
+  const decls = nodes.filter((n) => n.type !== 'role-group').map((n) => n.data as VisualDeclaration)
+  const tests = testNames(decls)
+  /** Properties the Verify tab can check: temporal formulas and invariants */
+  const properties = decls.filter((d) => d.name && (d.kind === 'temporal' || d.role === 'invariant'))
+  const [verifyProperty, setVerifyProperty] = useState('')
+  const [verifySteps, setVerifySteps] = useState(DEFAULT_VERIFY_STEPS)
+  const property = properties.find((d) => d.name === verifyProperty) ?? properties[0]
 
   const handleTypecheck = useCallback(async () => {
     setLoading(true)
     setOutput(null)
     try {
-      const result = await quintApi('typecheck', { code: getQuintCode() })
+      const result = await quintApi('typecheck', {
+        code: getQuintCode(),
+        module: moduleName,
+        modules: getWorkspaceFiles(),
+      })
       setOutput(result)
     } catch (e) {
       setOutput({ ok: false, output: String(e) })
     }
     setLoading(false)
-  }, [getQuintCode])
+  }, [getQuintCode, getWorkspaceFiles, moduleName])
 
-  const handleEval = useCallback(async () => {
-    if (!evalExpr.trim()) return
+  /** Run the active configuration, or repeat an earlier run with its exact options and seed */
+  const handleRun = useCallback(async (previous?: RunRecord) => {
     setLoading(true)
     setOutput(null)
+    const options = previous?.options ?? runOptions(runConfig, decls)
+    const config = previous?.config ?? runConfig.name
     try {
-      const result = await quintApi('eval', {
+      const result = await startStream('run', {
         code: getQuintCode(),
-        expr: evalExpr,
-        module: moduleName || 'MyModule',
+        module: moduleName,
+        modules: getWorkspaceFiles(),
+        ...options,
+        timeout: timeoutSecs,
       })
-      setOutput(result)
+      if (!result) {
+        // Cancelled: stay here, nothing to show in the modal
+        setOutput({ ok: false, output: 'Cancelled' })
+        setLoading(false)
+        return
+      }
+      const seed = result.seed ?? options.seed
+      const run: RunRecord = { config, options: { ...options, seed } }
+      addRunHistory({ ...run, id: `run-${Date.now()}`, at: Date.now(), ok: result.ok, summary: runSummary(result) })
+      setOutput({ ...result, seed, run })
+      onRunResult({ ...result, seed, run })
+      onClose() // Minimize the panel after run completes
     } catch (e) {
-      setOutput({ ok: false, output: String(e) })
+      const err = { ok: false, output: String(e) }
+      setOutput(err)
+      onRunResult(err)
+      onClose() // Minimize even on error, modal will show the error
     }
     setLoading(false)
-  }, [getQuintCode, evalExpr, moduleName])
+  }, [getQuintCode, getWorkspaceFiles, moduleName, decls, runConfig, timeoutSecs, startStream, addRunHistory, onClose, onRunResult])
 
-  const handleRun = useCallback(async () => {
+  // Re-run requested from the results modal
+  useEffect(() => {
+    if (!rerun) return
+    onRerunStarted?.()
+    setTab('run')
+    void handleRun(rerun)
+  }, [rerun, onRerunStarted, handleRun])
+
+  const handleVerify = useCallback(async () => {
+    if (!property) return
     setLoading(true)
     setOutput(null)
+    const verified = { property: property.name, temporal: property.kind === 'temporal' }
     try {
-      // Auto-detect invariant names from nodes with role='invariant'
-      const invNames = nodes
-        .filter((n) => n.type !== 'role-group' && (n.data as any)?.role === 'invariant' && (n.data as any)?.name)
-        .map((n) => (n.data as any).name)
-      const invariant = invNames.length > 0 ? invNames.join(' and ') : 'true'
-
-      const result = await quintApi('run', {
+      const result = await startStream('verify', {
         code: getQuintCode(),
+        module: moduleName,
+        modules: getWorkspaceFiles(),
         init: 'init',
         step: 'step',
-        invariant,
-        maxSteps: 20,
-        maxSamples,
+        ...(verified.temporal ? { temporal: verified.property } : { invariant: verified.property }),
+        maxSteps: verifySteps,
+        timeout: timeoutSecs,
       })
-      setOutput(result)
-      onRunResult(result)
-      onClose() // Minimize the panel after run completes
+      if (!result) {
+        setOutput({ ok: false, output: 'Cancelled' })
+        setLoading(false)
+        return
+      }
+      setOutput({ ...result, verified })
+      onRunResult({ ...result, verified })
+      onClose()
     } catch (e) {
-      const err = { ok: false, output: String(e) }
+      const err = { ok: false, output: String(e), verified }
       setOutput(err)
       onRunResult(err)
-      onClose() // Minimize even on error, modal will show the error
+      onClose()
+    }
+    setLoading(false)
+  }, [getQuintCode, getWorkspaceFiles, moduleName, property, verifySteps, timeoutSecs, startStream, onClose, onRunResult])
+
+  const handleTest = useCallback(async (name?: string) => {
+    setLoading(true)
+    setOutput(null)
+    setRunningTest(name ?? '*')
+    const names = name ? [name] : tests
+    try {
+      const result = await startStream('test', {
+        code: getQuintCode(),
+        module: moduleName,
+        modules: getWorkspaceFiles(),
+        match: name ? `^${name}$` : '.*',
+        timeout: timeoutSecs,
+      })
+      if (result) {
+        const parsed = parseTestOutput(result.output, names)
+        // Tests missing from the report (e.g. the module didn't compile) get the whole output
+        for (const n of names) {
+          if (!parsed[n]) parsed[n] = { ok: result.ok, output: result.output }
+        }
+        setTestResults(parsed)
+      } else {
+        setOutput({ ok: false, output: 'Cancelled' })
+      }
+    } catch (e) {
+      setTestResults(Object.fromEntries(names.map((n) => [n, { ok: false, output: String(e) }])))
     }
+    setRunningTest(null)
     setLoading(false)
-  }, [getQuintCode, nodes, maxSamples, onClose, onRunResult])
+  }, [getQuintCode, getWorkspaceFiles, moduleName, tests, timeoutSecs, startStream, setTestResults])
 
   return (
     <div
@@ -123,8 +282,11 @@ export default function ExecutionPanel({
       >
         {[
           { id: 'run' as TabId, label: 'Run' },
+          { id: 'verify' as TabId, label: 'Verify' },
+          { id: 'explore' as TabId, label: 'Explore' },
           { id: 'typecheck' as TabId, label: 'Typecheck' },
-          { id: 'eval' as TabId, label: 'Eval' },
+          { id: 'tests' as TabId, label: 'Tests' },
+          { id: 'repl' as TabId, label: 'REPL' },
         ].map((t) => (
           <button
             key={t.id}
@@ -164,12 +326,78 @@ export default function ExecutionPanel({
         {tab === 'run' && (
           <>
             <div style={{ fontSize: 11, color: '#8878b8' }}>Simulate the state machine</div>
+            <RunConfigEditor config={runConfig} decls={decls} />
+            <ConfigRow
+              label="Timeout (s)"
+              value={String(timeoutSecs)}
+              onChange={(v) => setTimeoutSecs(parseInt(v) || DEFAULT_TIMEOUT)}
+            />
+            <ActionButton onClick={() => handleRun()} loading={loading} label="Run Simulation" accent />
+            {loading && (
+              <LiveOutput output={live} elapsed={elapsed} onCancel={cancelStream} />
+            )}
+            {runHistory.length > 0 && (
+              <RunHistory
+                entries={runHistory}
+                disabled={loading}
+                onRerun={(entry) => handleRun(entry)}
+                onClear={clearRunHistory}
+              />
+            )}
+          </>
+        )}
+
+        {tab === 'verify' && (
+          <>
+            <div style={{ fontSize: 11, color: '#8878b8' }}>
+              Model check a property with <code>quint verify</code> (needs Java for Apalache)
+            </div>
+            {properties.length === 0 ? (
+              <div style={{ fontSize: 11, color: '#5a4d80' }}>
+                No properties yet. Add a temporal node or give a val the invariant role.
+              </div>
+            ) : (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                <span style={{ fontSize: 11, color: '#8878b8', minWidth: 80 }}>Property</span>
+                <select
+                  value={property?.name}
+                  onChange={(e) => setVerifyProperty(e.target.value)}
+                  style={{
+                    flex: 1,
+                    background: '#18122e',
+                    border: '1px solid #2a1f4e',
+                    borderRadius: 5,
+                    padding: '5px 8px',
+                    color: '#e4e4f0',
+                    fontSize: 12,
+                    fontFamily: "'JetBrains Mono', monospace",
+                    outline: 'none',
+                  }}
+                >
+                  {properties.map((d) => (
+                    <option key={d.id} value={d.name}>
+                      {d.name} ({d.kind === 'temporal' ? 'temporal' : 'invariant'})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
             <ConfigRow
-              label="Max samples"
-              value={String(maxSamples)}
-              onChange={(v) => setMaxSamples(parseInt(v) || 100)}
+              label="Max steps"
+              value={String(verifySteps)}
+              onChange={(v) => setVerifySteps(Math.max(1, parseInt(v) || DEFAULT_VERIFY_STEPS))}
             />
-            <ActionButton onClick={handleRun} loading={loading} label="Run Simulation" accent />
+            <ConfigRow
+              label="Timeout (s)"
+              value={String(timeoutSecs)}
+              onChange={(v) => setTimeoutSecs(parseInt(v) || DEFAULT_TIMEOUT)}
+            />
+            {properties.length > 0 && (
+              <ActionButton onClick={handleVerify} loading={loading} label="Verify" accent />
+            )}
+            {loading && (
+              <LiveOutput output={live} elapsed={elapsed} onCancel={cancelStream} />
+            )}
           </>
         )}
 
@@ -182,43 +410,63 @@ export default function ExecutionPanel({
           </>
         )}
 
-        {tab === 'eval' && (
+        {tab === 'explore' && (
           <>
             <div style={{ fontSize: 11, color: '#8878b8' }}>
-              Evaluate an expression in {moduleName || 'MyModule'}
+              Step through the state machine by hand; the canvas shows the current state
             </div>
-            <input
-              type="text"
-              value={evalExpr}
-              onChange={(e) => setEvalExpr(e.target.value)}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') handleEval()
-              }}
-              placeholder="e.g. addInt(2, 3)"
-              style={{
-                width: '100%',
-                background: '#18122e',
-                border: '1px solid #2a1f4e',
-                borderRadius: 6,
-                padding: '8px 10px',
-                color: '#e4e4f0',
-                fontSize: 13,
-                fontFamily: "'JetBrains Mono', monospace",
-                outline: 'none',
-              }}
-              onFocus={(e) => {
-                e.currentTarget.style.borderColor = '#7c5cfc'
-              }}
-              onBlur={(e) => {
-                e.currentTarget.style.borderColor = '#2a1f4e'
-              }}
+            <ExplorerPanel decls={decls} onStateGraph={onStateGraph} />
+          </>
+        )}
+
+        {tab === 'repl' && (
+          <>
+            <div style={{ fontSize: 11, color: '#8878b8' }}>
+              Explore {moduleName || 'MyModule'} in a <code>quint repl</code> session
+            </div>
+            <ReplConsole decls={decls} />
+          </>
+        )}
+
+        {tab === 'tests' && (
+          <>
+            <div style={{ fontSize: 11, color: '#8878b8' }}>
+              Run the module's <code>run</code> declarations with <code>quint test</code>
+            </div>
+            {tests.length === 0 ? (
+              <div style={{ fontSize: 11, color: '#5a4d80' }}>
+                No tests yet. Add a run node, or init and step actions for a generated test.
+              </div>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                {tests.map((name) => (
+                  <TestRow
+                    key={name}
+                    name={name}
+                    result={testResults[name]}
+                    running={runningTest === name || runningTest === '*'}
+                    disabled={loading}
+                    onRun={() => handleTest(name)}
+                  />
+                ))}
+              </div>
+            )}
+            <ConfigRow
+              label="Timeout (s)"
+              value={String(timeoutSecs)}
+              onChange={(v) => setTimeoutSecs(parseInt(v) || DEFAULT_TIMEOUT)}
             />
-            <ActionButton onClick={handleEval} loading={loading} label="Evaluate" />
+            {tests.length > 0 && (
+              <ActionButton onClick={() => handleTest()} loading={loading} label="Run All Tests" accent />
+            )}
+            {loading && (
+              <LiveOutput output={live} elapsed={elapsed} onCancel={cancelStream} />
+            )}
           </>
         )}
 
         {/* Output summary – click to re-open modal */}
-        {output && (
+        {output && tab !== 'tests' && (
           <button
             onClick={() => onRunResult(output)}
             style={{
@@ -255,7 +503,13 @@ export default function ExecutionPanel({
                 flex: 1,
               }}
             >
-              {output.ok ? 'Success' : 'Invariant Violated'}
+              {output.ok
+                ? 'Success'
+                : output.output === 'Cancelled'
+                  ? 'Cancelled'
+                  : output.verified
+                    ? 'Property Violated'
+                    : 'Invariant Violated'}
             </span>
             <span style={{ fontSize: 10, color: '#8878b8' }}>
               Click to view
@@ -267,39 +521,16 @@ export default function ExecutionPanel({
   )
 }
 
-/** Parse quint run output into structured sections */
-function parseRunOutput(raw: string): { summary: string; trace: string; rest: string } {
-  const lines = raw.split('\n')
-  const summaryLines: string[] = []
-  const traceLines: string[] = []
-  const restLines: string[] = []
-
-  let section: 'summary' | 'trace' | 'rest' = 'summary'
-  for (const line of lines) {
-    if (/^\[State \d+\]/.test(line) || /^State \d+:/.test(line) || /^\s*\{/.test(line)) {
-      section = 'trace'
-    } else if (section === 'trace' && line.trim() === '' && traceLines.length > 0) {
-      // blank line after trace content may signal end of trace
-      const nextIdx = lines.indexOf(line, lines.indexOf(traceLines[traceLines.length - 1]) + 1)
-      const nextLine = lines[nextIdx + 1]
-      if (nextLine && !/^\s*\{/.test(nextLine) && !/^\[State/.test(nextLine) && !/^State \d+/.test(nextLine)) {
-        section = 'rest'
-      }
-    }
-
-    if (section === 'summary') summaryLines.push(line)
-    else if (section === 'trace') traceLines.push(line)
-    else restLines.push(line)
-  }
-
-  return {
-    summary: summaryLines.join('\n').trim(),
-    trace: traceLines.join('\n').trim(),
-    rest: restLines.join('\n').trim(),
-  }
-}
-
-export function RunResultModal({ result, onClose }: { result: ExecResult; onClose: () => void }) {
+export function RunResultModal({
+  result,
+  onClose,
+  onRerun,
+}: {
+  result: ExecResult
+  onClose: () => void
+  /** Repeat the run with the same options and seed */
+  onRerun?: (run: RunRecord) => void
+}) {
   // Close on Escape key
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
@@ -309,19 +540,43 @@ export function RunResultModal({ result, onClose }: { result: ExecResult; onClos
     return () => window.removeEventListener('keydown', handler)
   }, [onClose])
 
-  const parsed = parseRunOutput(result.output)
-  const isViolation = !result.ok && /invariant|violated/i.test(result.output)
+  const { verified } = result
+  const isViolation = !result.ok && (verified ? !!result.trace : /invariant|violated/i.test(result.output))
   const headerColor = result.ok ? '#4ade80' : '#f87171'
   const headerBg = result.ok ? 'rgba(74,222,128,0.08)' : 'rgba(248,113,113,0.08)'
-  const headerLabel = result.ok
-    ? 'Simulation Passed'
-    : isViolation
-      ? 'Invariant Violated'
-      : 'Simulation Error'
+  const headerLabel = verified
+    ? result.ok
+      ? 'Verification Passed'
+      : isViolation
+        ? 'Property Violated'
+        : 'Verification Error'
+    : result.ok
+      ? 'Simulation Passed'
+      : isViolation
+        ? 'Invariant Violated'
+        : 'Simulation Error'
 
-  // Extract invariant name if present
+  // Extract invariant name if present; verification checks a single known property
   const invMatch = result.output.match(/(?:invariant|violation of)\s+(\w+)/i)
-  const invName = invMatch?.[1]
+  const invName = verified ? (isViolation ? verified.property : undefined) : invMatch?.[1]
+
+  const nodes = useAppStore((s) => s.nodes)
+  const startReplay = useAppStore((s) => s.startReplay)
+
+  const handleReplay = () => {
+    if (!result.trace) return
+    // Mark the reported invariant, or every invariant when the output doesn't name one
+    const invariants = invariantNames(nodes.filter((n) => n.type !== 'role-group').map((n) => n.data as VisualDeclaration))
+    const violated = result.ok
+      ? []
+      : verified
+        ? [verified.property]
+        : invName && invariants.includes(invName)
+        ? [invName]
+        : invariants
+    startReplay(result.trace, violated)
+    onClose()
+  }
 
   return (
     <div
@@ -343,7 +598,7 @@ export function RunResultModal({ result, onClose }: { result: ExecResult; onClos
           background: '#13101f',
           border: '1px solid #2a1f4e',
           borderRadius: 16,
-          width: 'min(720px, 90vw)',
+          width: result.trace ? 'min(960px, 92vw)' : 'min(720px, 90vw)',
           maxHeight: '85vh',
           display: 'flex',
           flexDirection: 'column',
@@ -372,10 +627,55 @@ export function RunResultModal({ result, onClose }: { result: ExecResult; onClos
             </div>
             {invName && !result.ok && (
               <div style={{ fontSize: 12, color: '#e4e4f0', marginTop: 2, opacity: 0.8 }}>
-                Invariant <span style={{ fontFamily: "'JetBrains Mono', monospace", color: '#f0a8a8', fontWeight: 600 }}>{invName}</span> was violated during simulation
+                {verified?.temporal ? 'Property' : 'Invariant'}{' '}
+                <span style={{ fontFamily: "'JetBrains Mono', monospace", color: '#f0a8a8', fontWeight: 600 }}>{invName}</span>
+                {verified ? ' has a counterexample' : ' was violated during simulation'}
+              </div>
+            )}
+            {result.seed && (
+              <div style={{ fontSize: 11, color: '#8878b8', marginTop: 2 }}>
+                Seed <span style={{ fontFamily: "'JetBrains Mono', monospace", color: '#e4e4f0' }}>{result.seed}</span>
               </div>
             )}
           </div>
+          {result.run && onRerun && (
+            <button
+              onClick={() => result.run && onRerun(result.run)}
+              title="Run the same simulation again, e.g. to check that a fix removed the violation"
+              style={{
+                background: 'rgba(255,255,255,0.06)',
+                border: '1px solid rgba(124,92,252,0.3)',
+                borderRadius: 8,
+                color: '#9d84fd',
+                fontSize: 13,
+                padding: '4px 12px',
+                cursor: 'pointer',
+                fontWeight: 600,
+                transition: 'all 0.15s',
+              }}
+            >
+              Re-run with this seed
+            </button>
+          )}
+          {result.trace && result.trace.states.length > 0 && (
+            <button
+              onClick={handleReplay}
+              title="Step through this trace on the canvas"
+              style={{
+                background: 'rgba(124,92,252,0.15)',
+                border: '1px solid rgba(124,92,252,0.4)',
+                borderRadius: 8,
+                color: '#9d84fd',
+                fontSize: 13,
+                padding: '4px 12px',
+                cursor: 'pointer',
+                fontWeight: 600,
+                transition: 'all 0.15s',
+              }}
+            >
+              Replay on canvas
+            </button>
+          )}
           <button
             onClick={onClose}
             style={{
@@ -405,26 +705,99 @@ export function RunResultModal({ result, onClose }: { result: ExecResult; onClos
             gap: 16,
           }}
         >
-          {/* Summary section */}
-          {parsed.summary && (
-            <OutputSection title="Output" content={parsed.summary} color={headerColor} />
+          {/* State trace, one row per step */}
+          {result.trace && result.trace.states.length > 0 && (
+            <TraceTable trace={result.trace} failed={!result.ok} />
           )}
 
-          {/* State trace */}
-          {parsed.trace && (
-            <OutputSection title="State Trace" content={parsed.trace} color="#a78bfa" />
-          )}
+          <OutputSection title="Output" content={result.output} color={headerColor} />
+        </div>
+      </div>
+    </div>
+  )
+}
 
-          {/* Additional info */}
-          {parsed.rest && (
-            <OutputSection title="Details" content={parsed.rest} color="#8878b8" />
-          )}
+function TraceTable({ trace, failed }: { trace: ItfTrace; failed: boolean }) {
+  const { vars, rows } = traceToTable(trace)
+  const cell: React.CSSProperties = {
+    padding: '6px 10px',
+    borderBottom: '1px solid #2a1f4e',
+    textAlign: 'left',
+    verticalAlign: 'top',
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-word',
+  }
 
-          {/* Fallback: if parsing didn't split anything useful, show full output */}
-          {!parsed.summary && !parsed.trace && !parsed.rest && (
-            <OutputSection title="Output" content={result.output} color={headerColor} />
-          )}
-        </div>
+  return (
+    <div>
+      <div
+        style={{
+          fontSize: 10,
+          fontWeight: 700,
+          textTransform: 'uppercase',
+          letterSpacing: 1,
+          color: '#a78bfa',
+          marginBottom: 6,
+        }}
+      >
+        State Trace
+      </div>
+      <div
+        style={{
+          border: '1px solid #2a1f4e',
+          borderRadius: 10,
+          overflow: 'auto',
+          background: 'rgba(255,255,255,0.02)',
+        }}
+      >
+        <table
+          style={{
+            width: '100%',
+            borderCollapse: 'collapse',
+            fontFamily: "'JetBrains Mono', monospace",
+            fontSize: 12,
+            color: '#e4e4f0',
+          }}
+        >
+          <thead>
+            <tr style={{ color: '#8878b8', fontSize: 11 }}>
+              <th style={cell}>#</th>
+              <th style={cell}>action</th>
+              {vars.map((v) => (
+                <th key={v} style={{ ...cell, color: '#60a5fa' }}>{v}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => {
+              const isLast = i === rows.length - 1
+              return (
+                <tr
+                  key={i}
+                  style={{ background: failed && isLast ? 'rgba(248,113,113,0.08)' : undefined }}
+                >
+                  <td style={{ ...cell, color: '#5a4d80' }}>{row.index}</td>
+                  <td style={{ ...cell, color: '#fb923c' }}>{row.action ?? '\u2014'}</td>
+                  {vars.map((v) => {
+                    const changed = row.changed.has(v)
+                    return (
+                      <td
+                        key={v}
+                        style={{
+                          ...cell,
+                          background: changed ? 'rgba(251,146,60,0.12)' : undefined,
+                          color: changed ? '#fdba74' : '#b0a8d0',
+                        }}
+                      >
+                        {row.values[v]}
+                      </td>
+                    )
+                  })}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
       </div>
     </div>
   )
@@ -503,14 +876,436 @@ function ActionButton({
   )
 }
 
+/** One test in the Tests tab: status, name, Run button and expandable output */
+function TestRow({
+  name,
+  result,
+  running,
+  disabled,
+  onRun,
+}: {
+  name: string
+  result?: TestResult
+  running: boolean
+  disabled: boolean
+  onRun: () => void
+}) {
+  const [expanded, setExpanded] = useState(false)
+  const color = running ? '#9d84fd' : !result ? '#5a4d80' : result.ok ? '#4ade80' : '#f87171'
+  const icon = running ? '\u22EF' : !result ? '\u25CB' : result.ok ? '\u2713' : '\u2717'
+
+  return (
+    <div
+      style={{
+        background: '#18122e',
+        border: `1px solid ${result && !running ? color + '33' : '#2a1f4e'}`,
+        borderRadius: 6,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '6px 8px' }}>
+        <span style={{ fontSize: 12, fontWeight: 700, color, width: 12, textAlign: 'center' }}>{icon}</span>
+        <span
+          onClick={() => result && setExpanded((v) => !v)}
+          title={result ? 'Show output' : undefined}
+          style={{
+            flex: 1,
+            fontSize: 12,
+            color: '#e4e4f0',
+            fontFamily: "'JetBrains Mono', monospace",
+            cursor: result ? 'pointer' : 'default',
+          }}
+        >
+          {name}
+        </span>
+        <button
+          onClick={onRun}
+          disabled={disabled}
+          style={{
+            background: 'rgba(124,92,252,0.15)',
+            color: '#9d84fd',
+            border: 'none',
+            borderRadius: 5,
+            padding: '3px 10px',
+            fontSize: 11,
+            fontWeight: 600,
+            cursor: disabled ? 'wait' : 'pointer',
+            opacity: disabled ? 0.5 : 1,
+          }}
+        >
+          Run
+        </button>
+      </div>
+      {expanded && result && (
+        <pre
+          style={{
+            margin: 0,
+            padding: '6px 10px',
+            borderTop: '1px solid #2a1f4e',
+            fontSize: 10,
+            lineHeight: 1.5,
+            color: result.ok ? '#b0a8d0' : '#f0a8a8',
+            fontFamily: "'JetBrains Mono', monospace",
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word',
+            maxHeight: 200,
+            overflow: 'auto',
+          }}
+        >
+          {result.output}
+        </pre>
+      )}
+    </div>
+  )
+}
+
+/** Output of a running command, with progress and a Cancel button */
+function LiveOutput({
+  output,
+  elapsed,
+  onCancel,
+}: {
+  output: string
+  elapsed: number
+  onCancel: () => void
+}) {
+  const preRef = useRef<HTMLPreElement>(null)
+  const { step, samples } = runProgress(output)
+
+  // Follow the tail of the output
+  useEffect(() => {
+    if (preRef.current) preRef.current.scrollTop = preRef.current.scrollHeight
+  }, [output])
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <span style={{ fontSize: 11, color: '#8878b8', flex: 1 }}>
+          {elapsed}s
+          {samples !== undefined && ` \u00B7 ${samples} samples`}
+          {step !== undefined && ` \u00B7 step ${step}`}
+        </span>
+        <button
+          onClick={onCancel}
+          style={{
+            background: 'rgba(248,113,113,0.1)',
+            color: '#f87171',
+            border: '1px solid rgba(248,113,113,0.25)',
+            borderRadius: 6,
+            padding: '4px 10px',
+            fontSize: 11,
+            fontWeight: 600,
+            cursor: 'pointer',
+          }}
+        >
+          Cancel
+        </button>
+      </div>
+      <pre
+        ref={preRef}
+        style={{
+          margin: 0,
+          padding: '8px 10px',
+          background: '#0c0918',
+          border: '1px solid #2a1f4e',
+          borderRadius: 6,
+          fontSize: 10,
+          lineHeight: 1.5,
+          color: '#b0a8d0',
+          fontFamily: "'JetBrains Mono', monospace",
+          whiteSpace: 'pre-wrap',
+          wordBreak: 'break-word',
+          maxHeight: 160,
+          overflow: 'auto',
+        }}
+      >
+        {output || 'Waiting for output...'}
+      </pre>
+    </div>
+  )
+}
+
+/** Earlier simulations, newest first, each with the seed to repeat it */
+function RunHistory({
+  entries,
+  disabled,
+  onRerun,
+  onClear,
+}: {
+  entries: RunHistoryEntry[]
+  disabled: boolean
+  onRerun: (entry: RunHistoryEntry) => void
+  onClear: () => void
+}) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+      <div style={{ display: 'flex', alignItems: 'center' }}>
+        <span style={{ fontSize: 11, color: '#8878b8', fontWeight: 600, flex: 1 }}>History</span>
+        <button
+          onClick={onClear}
+          style={{ background: 'none', border: 'none', color: '#5a4d80', fontSize: 11, cursor: 'pointer' }}
+        >
+          Clear
+        </button>
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 2, maxHeight: 180, overflow: 'auto' }}>
+        {entries.map((entry) => {
+          const color = entry.ok ? '#4ade80' : '#f87171'
+          return (
+            <div
+              key={entry.id}
+              title={`${entry.options.maxSteps} steps, ${entry.options.maxSamples} samples, ${entry.options.backend}`}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 6,
+                padding: '4px 6px',
+                background: '#18122e',
+                borderRadius: 5,
+                fontSize: 11,
+              }}
+            >
+              <span style={{ color, width: 12 }}>{entry.ok ? '\u2713' : '\u2717'}</span>
+              <span style={{ color, width: 52, flexShrink: 0 }}>{entry.summary}</span>
+              <span style={{ color: '#e4e4f0', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {entry.config}
+              </span>
+              <span
+                style={{
+                  flex: 1,
+                  color: '#8878b8',
+                  fontFamily: "'JetBrains Mono', monospace",
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {entry.options.seed}
+              </span>
+              <span style={{ color: '#5a4d80', flexShrink: 0 }}>{new Date(entry.at).toLocaleTimeString()}</span>
+              <button
+                onClick={() => onRerun(entry)}
+                disabled={disabled}
+                title="Run again with the same options and seed"
+                style={{
+                  background: 'rgba(124,92,252,0.15)',
+                  color: '#9d84fd',
+                  border: 'none',
+                  borderRadius: 5,
+                  padding: '2px 7px',
+                  fontSize: 11,
+                  cursor: disabled ? 'default' : 'pointer',
+                  opacity: disabled ? 0.5 : 1,
+                  flexShrink: 0,
+                }}
+              >
+                Re-run
+              </button>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+/** Pick, add, rename and edit the saved `quint run` configurations */
+function RunConfigEditor({ config, decls }: { config: RunConfig; decls: VisualDeclaration[] }) {
+  const runConfigs = useAppStore((s) => s.runConfigs)
+  const addRunConfig = useAppStore((s) => s.addRunConfig)
+  const updateRunConfig = useAppStore((s) => s.updateRunConfig)
+  const deleteRunConfig = useAppStore((s) => s.deleteRunConfig)
+  const selectRunConfig = useAppStore((s) => s.selectRunConfig)
+  const update = (updates: Partial<RunConfig>) => updateRunConfig(config.id, updates)
+
+  // Combined init/step actions exist in the generated code even without a node
+  const actions = decls.filter((d) => d.kind === 'action' && d.name)
+  const actionNames = [...new Set([
+    ...actions.map((a) => a.name),
+    ...(actions.some((a) => a.role === 'init') ? ['init'] : []),
+    ...(actions.some((a) => a.role === 'step') ? ['step'] : []),
+  ])]
+  const invariants = invariantNames(decls)
+  const checked = checkedInvariants(config, decls)
+  const toggleInvariant = (name: string) =>
+    update({
+      invariants: checked.includes(name) ? checked.filter((n) => n !== name) : [...checked, name],
+    })
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+        <select
+          value={config.id}
+          onChange={(e) => selectRunConfig(e.target.value)}
+          style={{ ...selectStyle, flex: 1 }}
+        >
+          {runConfigs.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name || 'Untitled'}
+            </option>
+          ))}
+        </select>
+        <SmallButton label="+" title="New configuration from this one" onClick={addRunConfig} />
+        {runConfigs.length > 1 && (
+          <SmallButton
+            label={'\u2715'}
+            title="Delete this configuration"
+            danger
+            onClick={() => deleteRunConfig(config.id)}
+          />
+        )}
+      </div>
+      <ConfigRow label="Name" value={config.name} onChange={(name) => update({ name })} />
+      <SelectRow
+        label="Init"
+        value={config.init}
+        options={actionNames}
+        onChange={(init) => update({ init })}
+      />
+      <SelectRow
+        label="Step"
+        value={config.step}
+        options={actionNames}
+        onChange={(step) => update({ step })}
+      />
+      {invariants.length > 0 && (
+        <div style={{ display: 'flex', alignItems: 'flex-start', gap: 8 }}>
+          <span style={{ fontSize: 11, color: '#8878b8', minWidth: 80 }}>Invariants</span>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, flex: 1 }}>
+            {invariants.map((name) => (
+              <label
+                key={name}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 4,
+                  fontSize: 11,
+                  color: checked.includes(name) ? '#e4e4f0' : '#5a4d80',
+                  fontFamily: "'JetBrains Mono', monospace",
+                  cursor: 'pointer',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={checked.includes(name)}
+                  onChange={() => toggleInvariant(name)}
+                  style={{ accentColor: '#facc15' }}
+                />
+                {name}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+      <ConfigRow
+        label="Max steps"
+        value={String(config.maxSteps)}
+        onChange={(v) => update({ maxSteps: Math.max(1, parseInt(v) || DEFAULT_RUN_CONFIG.maxSteps) })}
+      />
+      <ConfigRow
+        label="Max samples"
+        value={String(config.maxSamples)}
+        onChange={(v) => update({ maxSamples: Math.max(1, parseInt(v) || DEFAULT_RUN_CONFIG.maxSamples) })}
+      />
+      <ConfigRow
+        label="Traces"
+        value={String(config.nTraces)}
+        onChange={(v) => update({ nTraces: Math.max(1, parseInt(v) || 1) })}
+      />
+      <ConfigRow
+        label="Seed"
+        value={config.seed}
+        placeholder="random"
+        onChange={(seed) => update({ seed })}
+      />
+      <SelectRow
+        label="Backend"
+        value={config.backend}
+        options={['typescript', 'rust']}
+        onChange={(backend) => update({ backend: backend as QuintBackend })}
+      />
+    </div>
+  )
+}
+
+function SelectRow({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string
+  value: string
+  options: string[]
+  onChange: (v: string) => void
+}) {
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+      <span style={{ fontSize: 11, color: '#8878b8', minWidth: 80 }}>{label}</span>
+      <select value={value} onChange={(e) => onChange(e.target.value)} style={{ ...selectStyle, flex: 1 }}>
+        {!options.includes(value) && <option value={value}>{value}</option>}
+        {options.map((o) => (
+          <option key={o} value={o}>
+            {o}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
+
+function SmallButton({
+  label,
+  title,
+  onClick,
+  danger,
+}: {
+  label: string
+  title: string
+  onClick: () => void
+  danger?: boolean
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      style={{
+        background: danger ? 'rgba(248,113,113,0.1)' : 'rgba(124,92,252,0.15)',
+        color: danger ? '#f87171' : '#9d84fd',
+        border: 'none',
+        borderRadius: 5,
+        padding: '5px 9px',
+        fontSize: 12,
+        fontWeight: 600,
+        cursor: 'pointer',
+      }}
+    >
+      {label}
+    </button>
+  )
+}
+
+const selectStyle: React.CSSProperties = {
+  background: '#18122e',
+  border: '1px solid #2a1f4e',
+  borderRadius: 5,
+  padding: '5px 8px',
+  color: '#e4e4f0',
+  fontSize: 12,
+  fontFamily: "'JetBrains Mono', monospace",
+  outline: 'none',
+}
+
 function ConfigRow({
   label,
   value,
   onChange,
+  placeholder,
 }: {
   label: string
   value: string
   onChange: (v: string) => void
+  placeholder?: string
 }) {
   return (
     <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
@@ -519,6 +1314,7 @@ function ConfigRow({
         type="text"
         value={value}
         onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
         style={{
           flex: 1,
           background: '#18122e',
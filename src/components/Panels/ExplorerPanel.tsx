@@ -0,0 +1,311 @@
+import { useRef, useState } from 'react'
+import { useAppStore } from '../../model/store'
+import { type VisualDeclaration, scenarioToQuint } from '../../model/spec'
+import { EXPLORER_SESSION, replCommand } from '../../model/repl'
+import { invariantNames } from '../../model/runConfigs'
+import {
+  type ExplorerChoice,
+  type ExplorerStep,
+  type ReplSender,
+  callOf,
+  exploreChoices,
+  explorerScenario,
+  startExploration,
+} from '../../model/explorer'
+import { type StateGraph, reachableStates } from '../../model/stateGraph'
+
+/** Default depth of the reachable state graph */
+const DEFAULT_GRAPH_DEPTH = 3
+
+/**
+ * Play the state machine by hand: start from `init`, fire one of the enabled
+ * transitions at a time and step back. The canvas shows the current state.
+ */
+export default function ExplorerPanel({
+  decls,
+  onStateGraph,
+}: {
+  decls: VisualDeclaration[]
+  onStateGraph: (graph: StateGraph) => void
+}) {
+  const getQuintCode = useAppStore((s) => s.getQuintCode)
+  const getWorkspaceFiles = useAppStore((s) => s.getWorkspaceFiles)
+  const moduleName = useAppStore((s) => s.moduleName)
+  const nodes = useAppStore((s) => s.nodes)
+  const exploration = useAppStore((s) => s.exploration)
+  const setExploration = useAppStore((s) => s.setExploration)
+  const addDeclNode = useAppStore((s) => s.addDeclNode)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [showDisabled, setShowDisabled] = useState(false)
+  const [graphDepth, setGraphDepth] = useState(DEFAULT_GRAPH_DEPTH)
+  /** States found so far while building the graph, or null when not building */
+  const [graphProgress, setGraphProgress] = useState<number | null>(null)
+  const graphAbort = useRef<AbortController | null>(null)
+
+  const vars = decls.filter((d) => d.kind === 'var' && d.name).map((d) => d.name)
+  const invariants = invariantNames(decls)
+  const path = exploration?.path ?? []
+  const current = path[path.length - 1]
+  const enabled = exploration?.choices.filter((c) => c.next) ?? []
+  const disabled = exploration?.choices.filter((c) => !c.next) ?? []
+
+  const repl: ReplSender = (input) =>
+    replCommand({ code: getQuintCode(), module: moduleName, modules: getWorkspaceFiles() }, input, EXPLORER_SESSION)
+
+  /** Show `nextPath` and work out the transitions out of its last state */
+  const moveTo = async (nextPath: ExplorerStep[]) => {
+    setBusy(true)
+    setError(null)
+    setExploration({ path: nextPath, choices: [] })
+    try {
+      const choices = await exploreChoices(repl, nextPath[nextPath.length - 1], decls, invariants)
+      setExploration({ path: nextPath, choices })
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+    setBusy(false)
+  }
+
+  const start = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      const first = await startExploration(repl, vars, invariants)
+      await moveTo([first])
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+      setBusy(false)
+    }
+  }
+
+  const fire = (choice: ExplorerChoice) => {
+    if (choice.next) moveTo([...path, choice.next])
+  }
+
+  const back = () => {
+    if (path.length > 1) moveTo(path.slice(0, -1))
+  }
+
+  const saveAsRun = () => {
+    const names = new Set(decls.map((d) => d.name))
+    let n = 1
+    while (names.has(`explored${n}`)) n++
+    const scenario = explorerScenario(path)
+    // Below everything else on the canvas
+    const bottom = Math.max(0, ...nodes.filter((node) => !node.parentId).map((node) => node.position.y + 120))
+    addDeclNode('run', 0, bottom, { name: `explored${n}`, scenario, body: scenarioToQuint(scenario) })
+  }
+
+  const buildGraph = async () => {
+    const abort = new AbortController()
+    graphAbort.current = abort
+    setBusy(true)
+    setError(null)
+    setGraphProgress(0)
+    try {
+      onStateGraph(
+        await reachableStates(repl, decls, vars, invariants, graphDepth, {
+          signal: abort.signal,
+          onProgress: setGraphProgress,
+        })
+      )
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    }
+    graphAbort.current = null
+    setGraphProgress(null)
+    setBusy(false)
+  }
+
+  if (vars.length === 0) {
+    return <div style={{ fontSize: 11, color: '#5a4d80' }}>Add state variables and an init action to explore.</div>
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+      <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+        <ExplorerButton label={path.length > 0 ? 'Restart from init' : 'Start from init'} onClick={start} disabled={busy} accent />
+        <ExplorerButton label={'\u25C0 Back'} onClick={back} disabled={busy || path.length <= 1} />
+        <ExplorerButton label="Save as run" onClick={saveAsRun} disabled={path.length <= 1} />
+        {exploration && <ExplorerButton label="Stop" onClick={() => setExploration(null)} disabled={busy} />}
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+        <span style={{ fontSize: 11, color: '#8878b8', flex: 1 }}>
+          {graphProgress === null ? 'Reachable states up to depth' : `${graphProgress} states found\u2026`}
+        </span>
+        {graphProgress === null ? (
+          <>
+            <input
+              type="number"
+              min={1}
+              value={graphDepth}
+              onChange={(e) => setGraphDepth(Math.max(1, parseInt(e.target.value) || DEFAULT_GRAPH_DEPTH))}
+              style={{
+                width: 48,
+                background: '#18122e',
+                border: '1px solid #2a1f4e',
+                borderRadius: 5,
+                padding: '5px 6px',
+                color: '#e4e4f0',
+                fontSize: 12,
+                fontFamily: "'JetBrains Mono', monospace",
+                outline: 'none',
+              }}
+            />
+            <ExplorerButton label="State graph" onClick={buildGraph} disabled={busy} />
+          </>
+        ) : (
+          <ExplorerButton label="Stop" onClick={() => graphAbort.current?.abort()} />
+        )}
+      </div>
+
+      {error && (
+        <div style={{ fontSize: 11, color: '#f87171', whiteSpace: 'pre-wrap', fontFamily: "'JetBrains Mono', monospace" }}>
+          {error}
+        </div>
+      )}
+
+      {path.length > 0 && (
+        <Section title={`Path (${path.length - 1} step${path.length === 2 ? '' : 's'})`}>
+          {path.map((step, i) => (
+            <div
+              key={i}
+              style={{
+                fontSize: 11,
+                fontFamily: "'JetBrains Mono', monospace",
+                color: step.violated.length > 0 ? '#f87171' : i === path.length - 1 ? '#e4e4f0' : '#8878b8',
+              }}
+              title={step.violated.length > 0 ? `Violates ${step.violated.join(', ')}` : undefined}
+            >
+              {i}. {callOf(step.action, step.args)}
+              {step.violated.length > 0 && ' \u2717'}
+            </div>
+          ))}
+        </Section>
+      )}
+
+      {current && (
+        <Section title="Current state">
+          {Object.entries(current.state).map(([name, value]) => (
+            <div key={name} style={{ fontSize: 11, fontFamily: "'JetBrains Mono', monospace", color: '#e4e4f0' }}>
+              <span style={{ color: '#8878b8' }}>{name}</span> = {value}
+            </div>
+          ))}
+          {current.violated.length > 0 && (
+            <div style={{ fontSize: 11, color: '#f87171', marginTop: 4 }}>Violates {current.violated.join(', ')}</div>
+          )}
+        </Section>
+      )}
+
+      {current && (
+        <Section title={busy ? 'Trying actions\u2026' : `Enabled (${enabled.length})`}>
+          {!busy && enabled.length === 0 && <div style={{ fontSize: 11, color: '#5a4d80' }}>No action is enabled: deadlock.</div>}
+          {enabled.map((choice, i) => (
+            <button
+              key={i}
+              onClick={() => fire(choice)}
+              disabled={busy}
+              title={choice.next?.violated.length ? `Leads to a state violating ${choice.next.violated.join(', ')}` : undefined}
+              style={{
+                textAlign: 'left',
+                background: 'rgba(251,146,60,0.08)',
+                color: choice.next?.violated.length ? '#f87171' : '#fb923c',
+                border: '1px solid rgba(251,146,60,0.25)',
+                borderRadius: 5,
+                padding: '4px 8px',
+                fontSize: 11,
+                fontFamily: "'JetBrains Mono', monospace",
+                cursor: busy ? 'default' : 'pointer',
+              }}
+            >
+              {callOf(choice.action, choice.args)}
+            </button>
+          ))}
+          {disabled.length > 0 && (
+            <button
+              onClick={() => setShowDisabled((v) => !v)}
+              style={{ alignSelf: 'flex-start', background: 'none', border: 'none', color: '#5a4d80', fontSize: 11, cursor: 'pointer', padding: 0 }}
+            >
+              {showDisabled ? 'Hide' : 'Show'} {disabled.length} disabled
+            </button>
+          )}
+          {showDisabled &&
+            disabled.map((choice, i) => (
+              <div
+                key={i}
+                title={choice.error}
+                style={{
+                  fontSize: 11,
+                  fontFamily: "'JetBrains Mono', monospace",
+                  color: choice.error ? '#f87171' : '#5a4d80',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {callOf(choice.action, choice.args)}
+                {choice.error && ` \u2014 ${choice.error}`}
+              </div>
+            ))}
+        </Section>
+      )}
+    </div>
+  )
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+      <span style={{ fontSize: 11, color: '#8878b8', fontWeight: 600 }}>{title}</span>
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 3,
+          maxHeight: 160,
+          overflow: 'auto',
+          background: '#0c0918',
+          border: '1px solid #2a1f4e',
+          borderRadius: 6,
+          padding: '6px 8px',
+        }}
+      >
+        {children}
+      </div>
+    </div>
+  )
+}
+
+function ExplorerButton({
+  label,
+  onClick,
+  disabled,
+  accent,
+}: {
+  label: string
+  onClick: () => void
+  disabled?: boolean
+  accent?: boolean
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      style={{
+        background: accent ? 'linear-gradient(135deg, #7c5cfc, #6a4ae8)' : 'rgba(124,92,252,0.12)',
+        color: accent ? 'white' : '#9d84fd',
+        border: 'none',
+        borderRadius: 6,
+        padding: '6px 10px',
+        fontSize: 12,
+        fontWeight: 600,
+        cursor: disabled ? 'default' : 'pointer',
+        opacity: disabled ? 0.5 : 1,
+      }}
+    >
+      {label}
+    </button>
+  )
+}
@@ -0,0 +1,243 @@
+import { useState } from 'react'
+import { useAppStore } from '../../model/store'
+import type { ModuleImport } from '../../model/spec'
+
+export default function ModuleTabs() {
+  const modules = useAppStore((s) => s.modules)
+  const activeModuleId = useAppStore((s) => s.activeModuleId)
+  const moduleName = useAppStore((s) => s.moduleName)
+  const imports = useAppStore((s) => s.imports)
+  const addModule = useAppStore((s) => s.addModule)
+  const switchModule = useAppStore((s) => s.switchModule)
+  const deleteModule = useAppStore((s) => s.deleteModule)
+  const [showImports, setShowImports] = useState(false)
+  /** Module whose delete button was clicked once; the second click deletes it */
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 56,
+        left: 16,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 6,
+        zIndex: 10,
+      }}
+    >
+      {/* Tabs */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 2,
+          background: '#18122e',
+          border: '1px solid #2a1f4e',
+          borderRadius: 8,
+          padding: 3,
+          boxShadow: '0 4px 24px rgba(0,0,0,0.4)',
+        }}
+      >
+        {modules.map((m) => {
+          const active = m.id === activeModuleId
+          const name = active ? moduleName : m.name
+          return (
+            <div
+              key={m.id}
+              onClick={() => switchModule(m.id)}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 6,
+                background: active ? 'rgba(124,92,252,0.15)' : 'transparent',
+                color: active ? '#9d84fd' : '#8878b8',
+                borderRadius: 6,
+                padding: '4px 10px',
+                fontSize: 11,
+                fontWeight: 600,
+                fontFamily: "'JetBrains Mono', monospace",
+                cursor: 'pointer',
+                transition: 'all 0.15s',
+              }}
+            >
+              {name || 'Unnamed'}
+              {modules.length > 1 && (
+                <span
+                  title={confirmDeleteId === m.id ? `Click again to delete ${name} and its canvas` : `Delete module ${name}`}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    if (confirmDeleteId !== m.id) return setConfirmDeleteId(m.id)
+                    deleteModule(m.id)
+                    setConfirmDeleteId(null)
+                  }}
+                  onMouseLeave={() => setConfirmDeleteId(null)}
+                  style={{ fontSize: 10, color: confirmDeleteId === m.id ? '#f87171' : '#5a4d80' }}
+                >
+                  {confirmDeleteId === m.id ? 'Delete?' : '\u2715'}
+                </span>
+              )}
+            </div>
+          )
+        })}
+        <TabButton label="+" title="Add a module to the workspace" onClick={addModule} />
+        <TabButton
+          label={`Imports${imports.length > 0 ? ` (${imports.length})` : ''}`}
+          title="Edit imports and exports of the active module"
+          active={showImports}
+          onClick={() => setShowImports((v) => !v)}
+        />
+      </div>
+
+      {showImports && <ImportsEditor />}
+    </div>
+  )
+}
+
+function ImportsEditor() {
+  const modules = useAppStore((s) => s.modules)
+  const activeModuleId = useAppStore((s) => s.activeModuleId)
+  const imports = useAppStore((s) => s.imports)
+  const setImports = useAppStore((s) => s.setImports)
+
+  const others = modules.filter((m) => m.id !== activeModuleId).map((m) => m.name)
+
+  const update = (index: number, changes: Partial<ModuleImport>) =>
+    setImports(imports.map((imp, i) => (i === index ? { ...imp, ...changes } : imp)))
+
+  return (
+    <div
+      style={{
+        width: 340,
+        background: '#110d1f',
+        border: '1px solid #2a1f4e',
+        borderRadius: 10,
+        padding: 10,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 6,
+        boxShadow: '0 8px 32px rgba(0,0,0,0.5)',
+      }}
+    >
+      {others.length === 0 && (
+        <div style={{ fontSize: 11, color: '#5a4d80' }}>
+          Add another module to import from it
+        </div>
+      )}
+      {imports.map((imp, i) => (
+        <div key={i} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          <select
+            value={imp.keyword}
+            onChange={(e) => update(i, { keyword: e.target.value as ModuleImport['keyword'] })}
+            style={fieldStyle}
+          >
+            <option value="import">import</option>
+            <option value="export">export</option>
+          </select>
+          <select
+            value={imp.module}
+            onChange={(e) => update(i, { module: e.target.value })}
+            style={{ ...fieldStyle, flex: 1 }}
+          >
+            {!others.includes(imp.module) && <option value={imp.module}>{imp.module || '\u2014'}</option>}
+            {others.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <span style={{ color: '#5a4d80', fontSize: 12 }}>.</span>
+          <input
+            type="text"
+            value={imp.name}
+            onChange={(e) => update(i, { name: e.target.value })}
+            placeholder="*"
+            style={{ ...fieldStyle, width: 70 }}
+          />
+          {!imp.name && (
+            <input
+              type="text"
+              value={imp.alias ?? ''}
+              onChange={(e) => update(i, { alias: e.target.value.trim() || undefined })}
+              placeholder="as"
+              title="Alias for qualified references (L::x)"
+              style={{ ...fieldStyle, width: 50 }}
+            />
+          )}
+          <button
+            onClick={() => setImports(imports.filter((_, j) => j !== i))}
+            title="Remove"
+            style={{
+              background: 'rgba(248,113,113,0.1)',
+              color: '#f87171',
+              border: 'none',
+              borderRadius: 5,
+              padding: '4px 8px',
+              fontSize: 11,
+              cursor: 'pointer',
+            }}
+          >
+            {'\u2715'}
+          </button>
+        </div>
+      ))}
+      {others.length > 0 && (
+        <TabButton
+          label="+ import"
+          title="Import declarations from another module"
+          onClick={() => setImports([...imports, { keyword: 'import', module: others[0], name: '*' }])}
+        />
+      )}
+    </div>
+  )
+}
+
+const fieldStyle: React.CSSProperties = {
+  background: '#18122e',
+  border: '1px solid #2a1f4e',
+  borderRadius: 5,
+  padding: '4px 6px',
+  color: '#e4e4f0',
+  fontSize: 11,
+  fontFamily: "'JetBrains Mono', monospace",
+  outline: 'none',
+}
+
+function TabButton({
+  label,
+  title,
+  onClick,
+  active,
+}: {
+  label: string
+  title: string
+  onClick: () => void
+  active?: boolean
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      style={{
+        background: active ? 'rgba(124,92,252,0.15)' : 'transparent',
+        color: active ? '#9d84fd' : '#8878b8',
+        border: 'none',
+        borderRadius: 6,
+        padding: '4px 10px',
+        fontSize: 11,
+        fontWeight: 600,
+        cursor: 'pointer',
+        transition: 'all 0.15s',
+        whiteSpace: 'nowrap',
+      }}
+      onMouseEnter={(e) => {
+        e.currentTarget.style.color = '#e4e4f0'
+      }}
+      onMouseLeave={(e) => {
+        e.currentTarget.style.color = active ? '#9d84fd' : '#8878b8'
+      }}
+    >
+      {label}
+    </button>
+  )
+}
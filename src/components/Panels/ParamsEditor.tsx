@@ -0,0 +1,215 @@
+import { useAppStore } from '../../model/store'
+import {
+  type Param,
+  type ParamDomain,
+  type VisualDeclaration,
+  defaultDomain,
+} from '../../model/spec'
+
+/**
+ * Parameters of a def or action, one row per parameter with an optional type.
+ * With `withDomains`, each row also picks the values the generated `step`
+ * draws that parameter from.
+ */
+export default function ParamsEditor({
+  params,
+  onChange,
+  withDomains,
+}: {
+  params: Param[]
+  onChange: (params: Param[]) => void
+  withDomains?: boolean
+}) {
+  const updateParam = (index: number, param: Param) =>
+    onChange(params.map((p, i) => (i === index ? param : p)))
+  const moveParam = (index: number, delta: number) => {
+    const target = index + delta
+    if (target < 0 || target >= params.length) return
+    const next = [...params]
+    const [moved] = next.splice(index, 1)
+    next.splice(target, 0, moved)
+    onChange(next)
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+      {params.map((param, i) => (
+        <div key={i} style={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+            <input
+              value={param.name}
+              onChange={(e) => updateParam(i, { ...param, name: e.target.value })}
+              placeholder="name"
+              style={{ ...fieldStyle, width: 90, flexShrink: 0 }}
+            />
+            <span style={{ fontSize: 12, color: '#5a4d80' }}>:</span>
+            <input
+              value={param.type}
+              onChange={(e) => updateParam(i, { ...param, type: e.target.value })}
+              placeholder="type (optional)"
+              style={{ ...fieldStyle, flex: 1, minWidth: 0 }}
+            />
+            <IconButton label={'\u2191'} title="Move up" onClick={() => moveParam(i, -1)} />
+            <IconButton label={'\u2193'} title="Move down" onClick={() => moveParam(i, 1)} />
+            <IconButton
+              label={'\u2715'}
+              title="Remove"
+              danger
+              onClick={() => onChange(params.filter((_, j) => j !== i))}
+            />
+          </div>
+          {withDomains && (
+            <DomainRow param={param} onChange={(domain) => updateParam(i, { ...param, domain })} />
+          )}
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...params, { name: `p${params.length + 1}`, type: 'int' }])}
+        style={addButtonStyle}
+      >
+        + parameter
+      </button>
+    </div>
+  )
+}
+
+const DOMAIN_KINDS: { value: ParamDomain['kind'] | 'auto'; label: string }[] = [
+  { value: 'auto', label: 'auto' },
+  { value: 'range', label: 'range' },
+  { value: 'set', label: 'set' },
+  { value: 'ref', label: 'const/val' },
+]
+
+/** Where the generated `step` takes a parameter's value from */
+function DomainRow({ param, onChange }: { param: Param; onChange: (domain: ParamDomain | undefined) => void }) {
+  const nodes = useAppStore((s) => s.nodes)
+  const decls = nodes.filter((n) => n.type !== 'role-group').map((n) => n.data as VisualDeclaration)
+  const refs = decls.filter((d) => (d.kind === 'const' || d.kind === 'val') && d.name).map((d) => d.name)
+  const domain = param.domain
+
+  const setKind = (kind: string) => {
+    if (kind === 'range') onChange({ kind, from: '1', to: '10' })
+    else if (kind === 'set') onChange({ kind, values: '' })
+    else if (kind === 'ref') onChange({ kind, name: refs[0] ?? '' })
+    else onChange(undefined)
+  }
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 4, paddingLeft: 12 }}>
+      <span style={{ fontSize: 10, color: '#5a4d80', flexShrink: 0 }}>nondet from</span>
+      <select value={domain?.kind ?? 'auto'} onChange={(e) => setKind(e.target.value)} style={fieldStyle}>
+        {DOMAIN_KINDS.map((k) => (
+          <option key={k.value} value={k.value}>
+            {k.label}
+          </option>
+        ))}
+      </select>
+      {!domain && (
+        <span
+          title="Derived from the parameter type"
+          style={{
+            fontSize: 10,
+            color: '#5a4d80',
+            fontFamily: "'JetBrains Mono', monospace",
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {defaultDomain(param.type, decls)}
+        </span>
+      )}
+      {domain?.kind === 'range' && (
+        <>
+          <input
+            value={domain.from}
+            onChange={(e) => onChange({ ...domain, from: e.target.value })}
+            style={{ ...fieldStyle, width: 44 }}
+          />
+          <span style={{ fontSize: 10, color: '#5a4d80' }}>to</span>
+          <input
+            value={domain.to}
+            onChange={(e) => onChange({ ...domain, to: e.target.value })}
+            style={{ ...fieldStyle, width: 44 }}
+          />
+        </>
+      )}
+      {domain?.kind === 'set' && (
+        <input
+          value={domain.values}
+          onChange={(e) => onChange({ ...domain, values: e.target.value })}
+          placeholder={'"a", "b"'}
+          style={{ ...fieldStyle, flex: 1, minWidth: 0 }}
+        />
+      )}
+      {domain?.kind === 'ref' && (
+        <select
+          value={domain.name}
+          onChange={(e) => onChange({ ...domain, name: e.target.value })}
+          style={{ ...fieldStyle, flex: 1, minWidth: 0 }}
+        >
+          {!refs.includes(domain.name) && <option value={domain.name}>{domain.name || '\u2014'}</option>}
+          {refs.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+}
+
+function IconButton({
+  label,
+  title,
+  onClick,
+  danger,
+}: {
+  label: string
+  title: string
+  onClick: () => void
+  danger?: boolean
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      style={{
+        background: danger ? 'rgba(248,113,113,0.1)' : 'transparent',
+        color: danger ? '#f87171' : '#8878b8',
+        border: 'none',
+        borderRadius: 5,
+        padding: '3px 6px',
+        fontSize: 11,
+        cursor: 'pointer',
+        flexShrink: 0,
+      }}
+    >
+      {label}
+    </button>
+  )
+}
+
+const fieldStyle: React.CSSProperties = {
+  background: '#18122e',
+  border: '1px solid #2a1f4e',
+  borderRadius: 5,
+  padding: '5px 8px',
+  color: '#e4e4f0',
+  fontSize: 12,
+  fontFamily: "'JetBrains Mono', monospace",
+  outline: 'none',
+}
+
+const addButtonStyle: React.CSSProperties = {
+  alignSelf: 'flex-start',
+  background: 'rgba(124,92,252,0.08)',
+  color: '#9d84fd',
+  border: '1px dashed rgba(124,92,252,0.3)',
+  borderRadius: 5,
+  padding: '4px 10px',
+  fontSize: 11,
+  fontWeight: 600,
+  cursor: 'pointer',
+}
@@ -0,0 +1,290 @@
+import { useEffect, useRef, useState } from 'react'
+import { useReactFlow } from '@xyflow/react'
+import { emptyProjectData, useAppStore } from '../../model/store'
+import { parseProjectFile, projectFileName, toProjectFile } from '../../model/projectFile'
+import { isShareLink, readShareLink } from '../../model/shareLink'
+
+/** Project switcher next to the title: create, rename, duplicate, delete, export and import projects */
+export default function ProjectMenu() {
+  const projects = useAppStore((s) => s.projects)
+  const activeProjectId = useAppStore((s) => s.activeProjectId)
+  const getProjects = useAppStore((s) => s.getProjects)
+  const createProject = useAppStore((s) => s.createProject)
+  const switchProject = useAppStore((s) => s.switchProject)
+  const renameProject = useAppStore((s) => s.renameProject)
+  const duplicateProject = useAppStore((s) => s.duplicateProject)
+  const deleteProject = useAppStore((s) => s.deleteProject)
+  const addProject = useAppStore((s) => s.addProject)
+  const [open, setOpen] = useState(false)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  /** Project whose delete button was clicked once; the second click deletes it */
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  /** What had to be dropped or reset to load the last imported project */
+  const [importRepairs, setImportRepairs] = useState<string[]>([])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { fitView } = useReactFlow()
+  const active = projects.find((p) => p.id === activeProjectId)
+
+  const refit = () => setTimeout(() => fitView({ padding: 0.15, duration: 200 }), 50)
+
+  // A share link opens as a new project, leaving the local ones as they are
+  useEffect(() => {
+    const hash = window.location.hash
+    if (!isShareLink(hash)) return
+    // Drop the fragment first, so a reload (or a second effect run) doesn't add the project again
+    history.replaceState(null, '', window.location.pathname + window.location.search)
+    readShareLink(hash)
+      .then(({ moduleName, nodes, edges }) => {
+        addProject(`${moduleName} (shared)`, {
+          ...emptyProjectData(),
+          moduleName,
+          nodes,
+          edges,
+          modules: [{ id: 'main', name: moduleName, nodes: [], edges: [], imports: [] }],
+        })
+        setTimeout(() => fitView({ padding: 0.15, duration: 200 }), 50)
+      })
+      .catch((e) => {
+        setImportError(`Could not open the shared link: ${e instanceof Error ? e.message : String(e)}`)
+        setOpen(true)
+      })
+  }, [addProject, fitView])
+
+  const handleExport = (id: string) => {
+    const project = getProjects().find((p) => p.id === id)
+    if (!project) return
+    const blob = new Blob([JSON.stringify(toProjectFile(project), null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = projectFileName(project.name)
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Reset so picking the same file again still fires onChange
+    e.target.value = ''
+    if (!file) return
+    setImportRepairs([])
+    try {
+      const { name, data, repairs } = parseProjectFile(await file.text())
+      addProject(name, data)
+      setImportError(null)
+      setImportRepairs(repairs)
+      // Keep the menu open to show what was repaired
+      if (repairs.length === 0) setOpen(false)
+      refit()
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <div style={{ position: 'relative', pointerEvents: 'auto' }}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        title="Projects"
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 6,
+          background: open ? 'rgba(124,92,252,0.15)' : 'rgba(255,255,255,0.04)',
+          border: '1px solid #2a1f4e',
+          borderRadius: 6,
+          color: '#9d84fd',
+          fontSize: 12,
+          fontWeight: 600,
+          padding: '3px 8px',
+          cursor: 'pointer',
+          maxWidth: 180,
+        }}
+      >
+        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{active?.name}</span>
+        <span style={{ fontSize: 9 }}>{'\u25BE'}</span>
+      </button>
+
+      {open && (
+        <div
+          style={{
+            position: 'absolute',
+            top: 'calc(100% + 6px)',
+            left: 0,
+            width: 280,
+            background: '#18122e',
+            border: '1px solid #2a1f4e',
+            borderRadius: 10,
+            boxShadow: '0 8px 32px rgba(0,0,0,0.5)',
+            padding: 6,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: 2,
+            zIndex: 20,
+          }}
+        >
+          {projects.map((p) => {
+            const isActive = p.id === activeProjectId
+            return (
+              <div
+                key={p.id}
+                onClick={() => {
+                  if (renamingId === p.id) return
+                  switchProject(p.id)
+                  setOpen(false)
+                  refit()
+                }}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 4,
+                  padding: '5px 8px',
+                  borderRadius: 6,
+                  background: isActive ? 'rgba(124,92,252,0.15)' : 'transparent',
+                  cursor: 'pointer',
+                }}
+              >
+                {renamingId === p.id ? (
+                  <input
+                    autoFocus
+                    defaultValue={p.name}
+                    onClick={(e) => e.stopPropagation()}
+                    onBlur={(e) => {
+                      if (e.currentTarget.value.trim()) renameProject(p.id, e.currentTarget.value.trim())
+                      setRenamingId(null)
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur()
+                      if (e.key === 'Escape') setRenamingId(null)
+                    }}
+                    style={{
+                      flex: 1,
+                      minWidth: 0,
+                      background: '#110d1f',
+                      border: '1px solid #7c5cfc',
+                      borderRadius: 4,
+                      padding: '2px 6px',
+                      color: '#e4e4f0',
+                      fontSize: 12,
+                      outline: 'none',
+                    }}
+                  />
+                ) : (
+                  <span
+                    style={{
+                      flex: 1,
+                      fontSize: 12,
+                      color: isActive ? '#e4e4f0' : '#b0a8d0',
+                      fontWeight: isActive ? 600 : 400,
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {p.name}
+                  </span>
+                )}
+                <MenuIcon label={'\u270E'} title="Rename" onClick={() => setRenamingId(p.id)} />
+                <MenuIcon label={'\u29C9'} title="Duplicate" onClick={() => duplicateProject(p.id)} />
+                <MenuIcon label={'\u2913'} title="Export as a project file" onClick={() => handleExport(p.id)} />
+                {projects.length > 1 && (
+                  <MenuIcon
+                    label={confirmDeleteId === p.id ? 'Delete?' : '\u2715'}
+                    title={confirmDeleteId === p.id ? 'Click again to delete this project' : 'Delete'}
+                    danger
+                    onClick={() => {
+                      if (confirmDeleteId !== p.id) return setConfirmDeleteId(p.id)
+                      deleteProject(p.id)
+                      setConfirmDeleteId(null)
+                    }}
+                  />
+                )}
+              </div>
+            )
+          })}
+
+          <div style={{ height: 1, background: '#2a1f4e', margin: '4px 0' }} />
+          <MenuItem
+            label="+ New project"
+            onClick={() => {
+              createProject()
+              setOpen(false)
+            }}
+          />
+          <MenuItem label={'Import project file\u2026'} onClick={() => fileInputRef.current?.click()} />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            style={{ display: 'none' }}
+          />
+          {importError && (
+            <div style={{ fontSize: 11, color: '#f87171', padding: '4px 8px', whiteSpace: 'pre-wrap' }}>{importError}</div>
+          )}
+          {importRepairs.length > 0 && (
+            <div style={{ fontSize: 11, color: '#fbbf24', padding: '4px 8px' }} title={importRepairs.join('\n')}>
+              Imported with {importRepairs.length} repair{importRepairs.length === 1 ? '' : 's'} (hover for details)
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function MenuItem({ label, onClick }: { label: string; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      style={{
+        textAlign: 'left',
+        background: 'transparent',
+        border: 'none',
+        borderRadius: 6,
+        color: '#9d84fd',
+        fontSize: 12,
+        fontWeight: 600,
+        padding: '5px 8px',
+        cursor: 'pointer',
+      }}
+    >
+      {label}
+    </button>
+  )
+}
+
+function MenuIcon({
+  label,
+  title,
+  onClick,
+  danger,
+}: {
+  label: string
+  title: string
+  onClick: () => void
+  danger?: boolean
+}) {
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation()
+        onClick()
+      }}
+      title={title}
+      style={{
+        background: 'transparent',
+        color: danger ? '#f87171' : '#8878b8',
+        border: 'none',
+        borderRadius: 4,
+        padding: '2px 5px',
+        fontSize: 11,
+        cursor: 'pointer',
+        flexShrink: 0,
+      }}
+    >
+      {label}
+    </button>
+  )
+}
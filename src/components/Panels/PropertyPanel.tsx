@@ -1,6 +1,13 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
 import { useAppStore } from '../../model/store'
 import type { DeclKind, VisualDeclaration } from '../../model/spec'
+import { quintApi } from '../../model/api'
+import { mapDiagnostics } from '../../model/diagnostics'
+import ParamsEditor from './ParamsEditor'
+import ScenarioEditor from './ScenarioEditor'
+import TemporalEditor from './TemporalEditor'
+import TypeEditor from './TypeEditor'
+import TypePicker from './TypePicker'
 
 const DECL_COLORS: Record<DeclKind, string> = {
   var: '#60a5fa',
@@ -10,6 +17,8 @@ const DECL_COLORS: Record<DeclKind, string> = {
   action: '#fb923c',
   type: '#f472b6',
   assume: '#94a3b8',
+  run: '#2dd4bf',
+  temporal: '#e879f9',
 }
 
 export default function PropertyPanel({
@@ -75,7 +84,9 @@ function DeclEditor({
   onDelete: () => void
 }) {
   const color = DECL_COLORS[decl.kind]
-  const { status, errorMsg, check, dismiss } = useSyntaxCheck()
+  const { status, errorMsg, check, dismiss } = useSyntaxCheck(decl.id)
+  const diagnostics = useAppStore((s) => s.diagnostics[decl.id])
+  const warnings = useAppStore((s) => s.warnings[decl.id])
 
   return (
     <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
@@ -109,6 +120,13 @@ function DeclEditor({
           placeholder="identifier"
           mono
         />
+        {warnings && warnings.length > 0 && (
+          <ErrorBox warning>
+            {warnings.map((w, i) => (
+              <div key={i}>{w}</div>
+            ))}
+          </ErrorBox>
+        )}
       </div>
 
       {(decl.kind === 'action' || decl.kind === 'val') && (
@@ -180,17 +198,17 @@ function DeclEditor({
             placeholder="int"
             mono
           />
+          <TypePicker value={decl.type} onChange={(type) => onUpdate({ type })} />
         </div>
       )}
 
       {(decl.kind === 'def' || decl.kind === 'action') && (
         <div>
           <Label>Parameters</Label>
-          <TextInput
-            value={decl.params}
-            onChange={(v) => onUpdate({ params: v })}
-            placeholder="x: int, y: str"
-            mono
+          <ParamsEditor
+            params={decl.params}
+            onChange={(params) => onUpdate({ params })}
+            withDomains={decl.kind === 'action'}
           />
         </div>
       )}
@@ -207,6 +225,12 @@ function DeclEditor({
         </div>
       )}
 
+      {decl.kind === 'run' && <ScenarioEditor decl={decl} onUpdate={onUpdate} />}
+
+      {decl.kind === 'temporal' && <TemporalEditor decl={decl} onUpdate={onUpdate} />}
+
+      {decl.kind === 'type' && <TypeEditor decl={decl} onUpdate={onUpdate} />}
+
       {decl.kind !== 'var' && decl.kind !== 'const' && (
         <div>
           <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 4 }}>
@@ -218,30 +242,39 @@ function DeclEditor({
             {status === 'error' && (
               <span style={{ fontSize: 11, color: '#f87171', fontWeight: 600 }}>{'\u2717'}</span>
             )}
+            {status === 'elsewhere' && (
+              <span style={{ fontSize: 11, color: '#facc15', fontWeight: 600 }}>{'\u2713'}</span>
+            )}
           </div>
           <TextArea
             value={decl.body}
-            onChange={(v) => { onUpdate({ body: v }); dismiss() }}
+            // Editing a body by hand detaches it from the scenario builder or type editor
+            onChange={(v) => {
+              onUpdate({
+                body: v,
+                ...(decl.scenario ? { scenario: undefined } : {}),
+                ...(decl.typeDef ? { typeDef: undefined } : {}),
+              })
+              dismiss()
+            }}
             placeholder="expression..."
           />
-          {status === 'error' && errorMsg && (
-            <div
-              style={{
-                marginTop: 6,
-                padding: '6px 10px',
-                background: 'rgba(248,113,113,0.06)',
-                border: '1px solid rgba(248,113,113,0.15)',
-                borderRadius: 6,
-                fontSize: 11,
-                fontFamily: "'JetBrains Mono', monospace",
-                color: '#f0a8a8',
-                lineHeight: 1.5,
-                whiteSpace: 'pre-wrap',
-                wordBreak: 'break-word',
-                maxHeight: 120,
-                overflow: 'auto',
-              }}
-            >
+          {diagnostics && diagnostics.length > 0 ? (
+            <ErrorBox>
+              {diagnostics.map((d, i) => (
+                <div key={i}>
+                  <span style={{ color: '#8878b8' }}>line {d.bodyLine}</span>
+                  {d.excerpt && <span style={{ color: '#e4e4f0' }}>{`  ${d.excerpt}`}</span>}
+                  {'\n'}
+                  {d.message}
+                </div>
+              ))}
+            </ErrorBox>
+          ) : (
+            status === 'error' && errorMsg && <ErrorBox>{errorMsg}</ErrorBox>
+          )}
+          {status === 'elsewhere' && (
+            <div style={{ marginTop: 6, fontSize: 11, color: '#8878b8' }}>
               {errorMsg}
             </div>
           )}
@@ -277,27 +310,47 @@ function DeclEditor({
   )
 }
 
-async function quintApi(endpoint: string, body: object): Promise<{ ok: boolean; output: string }> {
-  const res = await fetch(`/api/quint/${endpoint}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
-  })
-  return res.json()
-}
-
-function useSyntaxCheck() {
-  const getQuintCode = useAppStore((s) => s.getQuintCode)
-  const [status, setStatus] = useState<'idle' | 'loading' | 'ok' | 'error'>('idle')
+/**
+ * Typecheck the whole module in context, refresh the node diagnostics and
+ * report whether this node is the one at fault.
+ */
+function useSyntaxCheck(nodeId: string) {
+  const getQuintCodeWithSourceMap = useAppStore((s) => s.getQuintCodeWithSourceMap)
+  const getWorkspaceFiles = useAppStore((s) => s.getWorkspaceFiles)
+  const setDiagnostics = useAppStore((s) => s.setDiagnostics)
+  const moduleName = useAppStore((s) => s.moduleName)
+  const [status, setStatus] = useState<'idle' | 'loading' | 'ok' | 'error' | 'elsewhere'>('idle')
   const [errorMsg, setErrorMsg] = useState('')
 
   const check = useCallback(async () => {
     setStatus('loading')
     setErrorMsg('')
     try {
-      const result = await quintApi('typecheck', { code: getQuintCode() })
+      const { code, sourceMap } = getQuintCodeWithSourceMap()
+      const result = await quintApi('typecheck', {
+        code,
+        module: moduleName,
+        modules: getWorkspaceFiles(),
+      })
+      const decls = useAppStore
+        .getState()
+        .nodes.filter((n) => n.type !== 'role-group')
+        .map((n) => n.data as VisualDeclaration)
+      const { byNode, unmapped } = mapDiagnostics(result.errors ?? [], moduleName, sourceMap, decls)
+      setDiagnostics(byNode, unmapped)
+
       if (result.ok) {
         setStatus('ok')
+      } else if (byNode[nodeId]) {
+        setStatus('error')
+      } else if (result.errors && result.errors.length > 0) {
+        const others = Object.keys(byNode).length
+        setStatus('elsewhere')
+        setErrorMsg(
+          others > 0
+            ? `No errors here; ${others} other declaration${others === 1 ? ' has' : 's have'} errors`
+            : `No errors here; the module has errors outside the canvas nodes:\n${unmapped.map((e) => e.message).join('\n')}`
+        )
       } else {
         setStatus('error')
         setErrorMsg(result.output)
@@ -306,13 +359,37 @@ function useSyntaxCheck() {
       setStatus('error')
       setErrorMsg(String(e))
     }
-  }, [getQuintCode])
+  }, [getQuintCodeWithSourceMap, getWorkspaceFiles, setDiagnostics, moduleName, nodeId])
 
   const dismiss = useCallback(() => { setStatus('idle'); setErrorMsg('') }, [])
 
   return { status, errorMsg, check, dismiss }
 }
 
+function ErrorBox({ children, warning }: { children: React.ReactNode; warning?: boolean }) {
+  return (
+    <div
+      style={{
+        marginTop: 6,
+        padding: '6px 10px',
+        background: warning ? 'rgba(251,191,36,0.06)' : 'rgba(248,113,113,0.06)',
+        border: `1px solid ${warning ? 'rgba(251,191,36,0.15)' : 'rgba(248,113,113,0.15)'}`,
+        borderRadius: 6,
+        fontSize: 11,
+        fontFamily: "'JetBrains Mono', monospace",
+        color: warning ? '#f5d58a' : '#f0a8a8',
+        lineHeight: 1.5,
+        whiteSpace: 'pre-wrap',
+        wordBreak: 'break-word',
+        maxHeight: 120,
+        overflow: 'auto',
+      }}
+    >
+      {children}
+    </div>
+  )
+}
+
 function CheckButton({ status, onClick }: { status: string; onClick: () => void }) {
   return (
     <button
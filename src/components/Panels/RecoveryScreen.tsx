@@ -0,0 +1,131 @@
+import { type LoadIssue, resolveLoadIssue } from '../../model/persistence'
+import { useAppStore } from '../../model/store'
+
+/**
+ * Shown instead of the whiteboard when the saved state could not be loaded
+ * as is. Nothing is written to storage until one of the ways forward is picked.
+ */
+export default function RecoveryScreen({ issue, onResolved }: { issue: LoadIssue; onResolved: () => void }) {
+  const downloadRaw = () => {
+    const blob = new Blob([issue.raw], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `quint-whiteboard-backup-${new Date().toISOString().slice(0, 10)}.json`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const keepRepaired = () => {
+    resolveLoadIssue()
+    // Save the repaired state right away
+    useAppStore.setState({})
+    onResolved()
+  }
+
+  const startEmpty = () => {
+    resolveLoadIssue()
+    useAppStore.setState(useAppStore.getInitialState(), true)
+    onResolved()
+  }
+
+  return (
+    <div
+      style={{
+        width: '100vw',
+        height: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: '#0c0a14',
+      }}
+    >
+      <div
+        style={{
+          background: '#13101f',
+          border: '1px solid #2a1f4e',
+          borderRadius: 16,
+          width: 'min(640px, 92vw)',
+          maxHeight: '85vh',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 14,
+          padding: 24,
+          boxShadow: '0 24px 80px rgba(0,0,0,0.7)',
+        }}
+      >
+        <div>
+          <div style={{ fontSize: 16, fontWeight: 700, color: '#e4e4f0' }}>
+            {issue.error ? 'The saved whiteboard could not be loaded' : 'The saved whiteboard needed repairs'}
+          </div>
+          <div style={{ fontSize: 12, color: '#8878b8', marginTop: 4 }}>
+            The saved data is left untouched until you choose how to continue. Download it first to keep a copy.
+          </div>
+        </div>
+
+        {issue.error && (
+          <div style={{ fontSize: 12, color: '#f87171', fontFamily: "'JetBrains Mono', monospace", whiteSpace: 'pre-wrap' }}>
+            {issue.error}
+          </div>
+        )}
+
+        {issue.repairs.length > 0 && (
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 3,
+              overflow: 'auto',
+              background: '#0c0918',
+              border: '1px solid #2a1f4e',
+              borderRadius: 6,
+              padding: '8px 10px',
+            }}
+          >
+            {issue.repairs.map((repair, i) => (
+              <div key={i} style={{ fontSize: 11, color: '#fbbf24', fontFamily: "'JetBrains Mono', monospace" }}>
+                {repair}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+          <RecoveryButton label="Download saved data" onClick={downloadRaw} accent />
+          {!issue.error && <RecoveryButton label="Open the repaired whiteboard" onClick={keepRepaired} />}
+          <RecoveryButton label="Start with an empty whiteboard" onClick={startEmpty} danger />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function RecoveryButton({
+  label,
+  onClick,
+  accent,
+  danger,
+}: {
+  label: string
+  onClick: () => void
+  accent?: boolean
+  danger?: boolean
+}) {
+  return (
+    <button
+      onClick={onClick}
+      style={{
+        background: accent ? 'linear-gradient(135deg, #7c5cfc, #6a4ae8)' : 'rgba(124,92,252,0.12)',
+        color: accent ? 'white' : danger ? '#f87171' : '#9d84fd',
+        border: 'none',
+        borderRadius: 6,
+        padding: '7px 12px',
+        fontSize: 12,
+        fontWeight: 600,
+        cursor: 'pointer',
+      }}
+    >
+      {label}
+    </button>
+  )
+}
@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from 'react'
+import { useAppStore } from '../../model/store'
+import type { VisualDeclaration } from '../../model/spec'
+import { closeRepl, replCommand, stateQuery } from '../../model/repl'
+
+/**
+ * A `quint repl` session that lives as long as the browser tab, so
+ * definitions and state carry over between commands. The server restarts it
+ * whenever the generated module changes.
+ */
+export default function ReplConsole({ decls }: { decls: VisualDeclaration[] }) {
+  const getQuintCode = useAppStore((s) => s.getQuintCode)
+  const getWorkspaceFiles = useAppStore((s) => s.getWorkspaceFiles)
+  const moduleName = useAppStore((s) => s.moduleName)
+  const log = useAppStore((s) => s.replLog)
+  const addReplEntry = useAppStore((s) => s.addReplEntry)
+  const clearReplLog = useAppStore((s) => s.clearReplLog)
+  const [input, setInput] = useState('')
+  const [busy, setBusy] = useState(false)
+  /** Position while browsing earlier inputs with the arrow keys, counted from the newest */
+  const [historyPos, setHistoryPos] = useState(-1)
+  const logRef = useRef<HTMLDivElement>(null)
+  const inputs = log.map((e) => e.input).filter(Boolean)
+
+  const vars = decls.filter((d) => d.kind === 'var' && d.name).map((d) => d.name)
+  const actions = decls.filter((d) => d.kind === 'action' && d.name && d.name !== 'init')
+
+  // Follow the newest output
+  useEffect(() => {
+    if (logRef.current) logRef.current.scrollTop = logRef.current.scrollHeight
+  }, [log, busy])
+
+  const send = async (command: string) => {
+    if (busy) return
+    setBusy(true)
+    setInput('')
+    setHistoryPos(-1)
+    try {
+      addReplEntry(
+        await replCommand({ code: getQuintCode(), module: moduleName, modules: getWorkspaceFiles() }, command)
+      )
+    } catch (e) {
+      addReplEntry({ id: String(Date.now()), input: command, output: String(e), ok: false })
+    }
+    setBusy(false)
+  }
+
+  const restart = async () => {
+    await closeRepl().catch(() => {})
+    clearReplLog()
+  }
+
+  const browse = (delta: number) => {
+    const pos = Math.max(-1, Math.min(inputs.length - 1, historyPos + delta))
+    setHistoryPos(pos)
+    setInput(pos === -1 ? '' : inputs[inputs.length - 1 - pos])
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+      <div
+        ref={logRef}
+        style={{
+          background: '#0c0918',
+          border: '1px solid #2a1f4e',
+          borderRadius: 6,
+          padding: '8px 10px',
+          minHeight: 80,
+          maxHeight: 280,
+          overflow: 'auto',
+          fontSize: 11,
+          lineHeight: 1.5,
+          fontFamily: "'JetBrains Mono', monospace",
+        }}
+      >
+        {log.length === 0 && (
+          <div style={{ color: '#5a4d80' }}>
+            Definitions and state are kept between commands. Try <code>init</code>, then an action, then a
+            variable name.
+          </div>
+        )}
+        {log.map((entry, i) => (
+          <div key={entry.id} style={{ marginBottom: 6 }}>
+            {entry.restarted && i > 0 && (
+              <div style={{ color: '#fbbf24', fontSize: 10 }}>
+                Session restarted (the module changed or the REPL stopped): earlier definitions and state are gone
+              </div>
+            )}
+            {entry.input && (
+              <div style={{ color: '#9d84fd', whiteSpace: 'pre-wrap' }}>
+                {'>>> '}
+                {entry.input}
+              </div>
+            )}
+            {entry.output && (
+              <div style={{ color: entry.ok ? '#b0a8d0' : '#f87171', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                {entry.output}
+              </div>
+            )}
+          </div>
+        ))}
+        {busy && <div style={{ color: '#5a4d80' }}>{'\u2026'}</div>}
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4 }}>
+        <QuickButton label="init" title="Run init" onClick={() => send('init')} disabled={busy} />
+        {actions.map((a) => (
+          <QuickButton
+            key={a.id}
+            label={a.params.length > 0 ? `${a.name}(\u2026)` : a.name}
+            title={a.params.length > 0 ? 'Fill in the arguments, then press Enter' : `Run ${a.name}`}
+            // Actions with parameters need arguments, so start the call in the input instead
+            onClick={() => (a.params.length > 0 ? setInput(`${a.name}(`) : send(a.name))}
+            disabled={busy}
+          />
+        ))}
+        {vars.length > 0 && (
+          <QuickButton label="state" title="Show every state variable" onClick={() => send(stateQuery(vars))} disabled={busy} />
+        )}
+      </div>
+
+      <textarea
+        value={input}
+        rows={Math.min(4, input.split('\n').length)}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault()
+            if (input.trim()) send(input)
+          } else if ((e.key === 'ArrowUp' || e.key === 'ArrowDown') && !input.includes('\n')) {
+            e.preventDefault()
+            browse(e.key === 'ArrowUp' ? 1 : -1)
+          }
+        }}
+        placeholder={`Expression or definition in ${moduleName} (Shift+Enter for a new line)`}
+        style={{
+          width: '100%',
+          boxSizing: 'border-box',
+          resize: 'none',
+          background: '#18122e',
+          border: '1px solid #2a1f4e',
+          borderRadius: 6,
+          padding: '8px 10px',
+          color: '#e4e4f0',
+          fontSize: 12,
+          fontFamily: "'JetBrains Mono', monospace",
+          outline: 'none',
+        }}
+        onFocus={(e) => {
+          e.currentTarget.style.borderColor = '#7c5cfc'
+        }}
+        onBlur={(e) => {
+          e.currentTarget.style.borderColor = '#2a1f4e'
+        }}
+      />
+
+      <div style={{ display: 'flex', gap: 6, justifyContent: 'flex-end' }}>
+        <QuickButton label="Clear" title="Clear the transcript, keeping the session" onClick={clearReplLog} />
+        <QuickButton label="Restart" title="Start a fresh session" onClick={restart} disabled={busy} />
+      </div>
+    </div>
+  )
+}
+
+function QuickButton({
+  label,
+  title,
+  onClick,
+  disabled,
+}: {
+  label: string
+  title: string
+  onClick: () => void
+  disabled?: boolean
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      disabled={disabled}
+      style={{
+        background: 'rgba(124,92,252,0.12)',
+        color: '#9d84fd',
+        border: '1px solid rgba(124,92,252,0.25)',
+        borderRadius: 5,
+        padding: '3px 8px',
+        fontSize: 11,
+        fontFamily: "'JetBrains Mono', monospace",
+        cursor: disabled ? 'default' : 'pointer',
+        opacity: disabled ? 0.5 : 1,
+      }}
+    >
+      {label}
+    </button>
+  )
+}
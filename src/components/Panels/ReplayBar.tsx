@@ -0,0 +1,132 @@
+import { useEffect } from 'react'
+import { useAppStore } from '../../model/store'
+import { actionTaken } from '../../model/itf'
+
+export default function ReplayBar() {
+  const replay = useAppStore((s) => s.replay)
+  const setReplayStep = useAppStore((s) => s.setReplayStep)
+  const stopReplay = useAppStore((s) => s.stopReplay)
+
+  // Arrow keys step through the trace, Escape leaves replay mode
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      const tag = (e.target as HTMLElement).tagName
+      if (tag === 'INPUT' || tag === 'TEXTAREA') return
+      const { replay } = useAppStore.getState()
+      if (!replay || replay.exploring) return
+      if (e.key === 'ArrowLeft') setReplayStep(replay.step - 1)
+      else if (e.key === 'ArrowRight') setReplayStep(replay.step + 1)
+      else if (e.key === 'Escape') stopReplay()
+    }
+    window.addEventListener('keydown', handler)
+    return () => window.removeEventListener('keydown', handler)
+  }, [setReplayStep, stopReplay])
+
+  // The state explorer shows its path with its own controls
+  if (!replay || replay.exploring) return null
+
+  const last = replay.trace.states.length - 1
+  const action = actionTaken(replay.trace.states[replay.step])
+  const failed = replay.violated.length > 0 && replay.step === last
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 68,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        display: 'flex',
+        alignItems: 'center',
+        gap: 10,
+        background: '#18122e',
+        border: `1px solid ${failed ? '#f8717166' : '#2a1f4e'}`,
+        borderRadius: 12,
+        padding: '6px 10px',
+        boxShadow: '0 4px 24px rgba(0,0,0,0.4)',
+        zIndex: 10,
+      }}
+    >
+      <span
+        style={{
+          fontSize: 9,
+          fontWeight: 700,
+          color: '#a78bfa',
+          letterSpacing: '0.08em',
+          textTransform: 'uppercase',
+        }}
+      >
+        Replay
+      </span>
+      <StepButton label={'\u25C0'} title="Previous step" disabled={replay.step === 0} onClick={() => setReplayStep(replay.step - 1)} />
+      <input
+        type="range"
+        min={0}
+        max={last}
+        value={replay.step}
+        onChange={(e) => setReplayStep(Number(e.target.value))}
+        style={{ width: 180, accentColor: '#7c5cfc' }}
+      />
+      <StepButton label={'\u25B6'} title="Next step" disabled={replay.step === last} onClick={() => setReplayStep(replay.step + 1)} />
+      <span
+        style={{
+          fontSize: 11,
+          color: failed ? '#f87171' : '#e4e4f0',
+          fontFamily: "'JetBrains Mono', monospace",
+          minWidth: 150,
+          whiteSpace: 'nowrap',
+        }}
+      >
+        Step {replay.step}/{last}
+        {action && <span style={{ color: '#fb923c' }}>{' \u00B7 '}{action}</span>}
+        {failed && ' \u00B7 violated'}
+      </span>
+      <button
+        onClick={stopReplay}
+        title="Leave replay mode (Esc)"
+        style={{
+          background: 'rgba(255,255,255,0.06)',
+          border: '1px solid rgba(255,255,255,0.1)',
+          borderRadius: 6,
+          color: '#8878b8',
+          fontSize: 11,
+          fontWeight: 600,
+          padding: '4px 10px',
+          cursor: 'pointer',
+        }}
+      >
+        Exit
+      </button>
+    </div>
+  )
+}
+
+function StepButton({
+  label,
+  title,
+  disabled,
+  onClick,
+}: {
+  label: string
+  title: string
+  disabled: boolean
+  onClick: () => void
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      disabled={disabled}
+      style={{
+        background: 'transparent',
+        border: 'none',
+        color: disabled ? '#3a2f5e' : '#9d84fd',
+        fontSize: 12,
+        padding: '2px 6px',
+        cursor: disabled ? 'default' : 'pointer',
+      }}
+    >
+      {label}
+    </button>
+  )
+}
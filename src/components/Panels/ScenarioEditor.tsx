@@ -0,0 +1,250 @@
+import { useAppStore } from '../../model/store'
+import {
+  type Scenario,
+  type ScenarioStep,
+  type VisualDeclaration,
+  paramsToQuint,
+  scenarioToQuint,
+} from '../../model/spec'
+import { parseScenario } from '../../model/parser'
+
+const DEFAULT_SCENARIO: Scenario = {
+  init: 'init',
+  steps: [{ type: 'action', action: 'step', args: '' }],
+}
+
+/**
+ * Builds a run body as a chain of steps: init, then action calls (optionally
+ * repeated) and `.expect(...)` checks. Typing in the Body field instead
+ * detaches the builder and keeps the text as written.
+ */
+export default function ScenarioEditor({
+  decl,
+  onUpdate,
+}: {
+  decl: VisualDeclaration
+  onUpdate: (u: Partial<VisualDeclaration>) => void
+}) {
+  const nodes = useAppStore((s) => s.nodes)
+  const actions = nodes
+    .filter((n) => n.type !== 'role-group')
+    .map((n) => n.data as VisualDeclaration)
+    .filter((d) => d.kind === 'action' && d.name)
+
+  // Combined init/step actions exist in the generated code even without a node
+  const names = [...new Set([
+    ...actions.map((a) => a.name),
+    ...(actions.some((a) => a.role === 'init') ? ['init'] : []),
+    ...(actions.some((a) => a.role === 'step') ? ['step'] : []),
+  ])]
+  const paramsOf = (name: string) => paramsToQuint(actions.find((a) => a.name === name)?.params ?? [])
+
+  const scenario = decl.scenario
+  const apply = (next: Scenario) => onUpdate({ scenario: next, body: scenarioToQuint(next) })
+
+  if (!scenario) {
+    return (
+      <div>
+        <div style={labelStyle}>Scenario</div>
+        <button
+          onClick={() => apply(parseScenario(decl.body) ?? DEFAULT_SCENARIO)}
+          title="Edit this run as a chain of steps"
+          style={addButtonStyle}
+        >
+          Use scenario builder
+        </button>
+      </div>
+    )
+  }
+
+  const setSteps = (steps: ScenarioStep[]) => apply({ ...scenario, steps })
+  const updateStep = (index: number, step: ScenarioStep) =>
+    setSteps(scenario.steps.map((s, i) => (i === index ? step : s)))
+  const removeStep = (index: number) => setSteps(scenario.steps.filter((_, i) => i !== index))
+  const moveStep = (index: number, delta: number) => {
+    const target = index + delta
+    if (target < 0 || target >= scenario.steps.length) return
+    const steps = [...scenario.steps]
+    const [moved] = steps.splice(index, 1)
+    steps.splice(target, 0, moved)
+    setSteps(steps)
+  }
+  const addCall = () => {
+    const action = names.includes('step') ? 'step' : names[0] ?? 'step'
+    setSteps([...scenario.steps, { type: 'action', action, args: '' }])
+  }
+
+  return (
+    <div>
+      <div style={labelStyle}>Scenario</div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+        <div style={rowStyle}>
+          <span style={keywordStyle}>start</span>
+          <ActionSelect
+            value={scenario.init}
+            names={names}
+            onChange={(init) => apply({ ...scenario, init })}
+          />
+        </div>
+
+        {scenario.steps.map((step, i) => (
+          <div key={i} style={rowStyle}>
+            <span style={keywordStyle}>{step.type === 'expect' ? 'expect' : 'then'}</span>
+            {step.type === 'expect' ? (
+              <input
+                value={step.condition}
+                onChange={(e) => updateStep(i, { ...step, condition: e.target.value })}
+                placeholder="condition"
+                style={{ ...fieldStyle, flex: 1 }}
+              />
+            ) : (
+              <>
+                <ActionSelect
+                  value={step.action}
+                  names={names}
+                  onChange={(action) => updateStep(i, { ...step, action })}
+                />
+                <input
+                  value={step.args}
+                  onChange={(e) => updateStep(i, { ...step, args: e.target.value })}
+                  placeholder={paramsOf(step.action) || 'args'}
+                  style={{ ...fieldStyle, flex: 1, minWidth: 0 }}
+                />
+                <span style={{ fontSize: 10, color: '#5a4d80' }}>{'\u00D7'}</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={step.reps ?? 1}
+                  onChange={(e) => {
+                    const reps = Math.max(1, parseInt(e.target.value) || 1)
+                    updateStep(i, { ...step, reps: reps > 1 ? reps : undefined })
+                  }}
+                  title="Repeat this step n times (.reps)"
+                  style={{ ...fieldStyle, width: 44 }}
+                />
+              </>
+            )}
+            <IconButton label={'\u2191'} title="Move up" onClick={() => moveStep(i, -1)} />
+            <IconButton label={'\u2193'} title="Move down" onClick={() => moveStep(i, 1)} />
+            <IconButton label={'\u2715'} title="Remove" danger onClick={() => removeStep(i)} />
+          </div>
+        ))}
+
+        <div style={{ display: 'flex', gap: 4, marginTop: 2 }}>
+          <button onClick={addCall} style={addButtonStyle}>
+            + then
+          </button>
+          <button
+            onClick={() => setSteps([...scenario.steps, { type: 'expect', condition: '' }])}
+            style={addButtonStyle}
+          >
+            + expect
+          </button>
+          <button
+            onClick={() => onUpdate({ scenario: undefined })}
+            title="Stop using the builder and edit the body as text"
+            style={{ ...addButtonStyle, marginLeft: 'auto', color: '#5a4d80' }}
+          >
+            Text only
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function ActionSelect({
+  value,
+  names,
+  onChange,
+}: {
+  value: string
+  names: string[]
+  onChange: (name: string) => void
+}) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} style={{ ...fieldStyle, maxWidth: 130 }}>
+      {!names.includes(value) && <option value={value}>{value || '\u2014'}</option>}
+      {names.map((name) => (
+        <option key={name} value={name}>
+          {name}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+function IconButton({
+  label,
+  title,
+  onClick,
+  danger,
+}: {
+  label: string
+  title: string
+  onClick: () => void
+  danger?: boolean
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      style={{
+        background: danger ? 'rgba(248,113,113,0.1)' : 'transparent',
+        color: danger ? '#f87171' : '#8878b8',
+        border: 'none',
+        borderRadius: 5,
+        padding: '3px 6px',
+        fontSize: 11,
+        cursor: 'pointer',
+        flexShrink: 0,
+      }}
+    >
+      {label}
+    </button>
+  )
+}
+
+const labelStyle: React.CSSProperties = {
+  fontSize: 11,
+  fontWeight: 500,
+  color: '#8878b8',
+  marginBottom: 4,
+}
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 4,
+}
+
+const keywordStyle: React.CSSProperties = {
+  fontSize: 10,
+  fontWeight: 700,
+  color: '#2dd4bf',
+  fontFamily: "'JetBrains Mono', monospace",
+  width: 42,
+  flexShrink: 0,
+}
+
+const fieldStyle: React.CSSProperties = {
+  background: '#18122e',
+  border: '1px solid #2a1f4e',
+  borderRadius: 5,
+  padding: '4px 6px',
+  color: '#e4e4f0',
+  fontSize: 11,
+  fontFamily: "'JetBrains Mono', monospace",
+  outline: 'none',
+}
+
+const addButtonStyle: React.CSSProperties = {
+  background: 'rgba(45,212,191,0.08)',
+  color: '#2dd4bf',
+  border: '1px dashed rgba(45,212,191,0.3)',
+  borderRadius: 5,
+  padding: '4px 10px',
+  fontSize: 11,
+  fontWeight: 600,
+  cursor: 'pointer',
+}
@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  ReactFlow,
+  ReactFlowProvider,
+  Background,
+  Controls,
+  BackgroundVariant,
+  MarkerType,
+  type Edge,
+  type Node,
+} from '@xyflow/react'
+import { type StateGraph, layoutStateGraph } from '../../model/stateGraph'
+
+/** The bounded reachable state space: states as nodes, transitions as labelled edges */
+export function StateGraphModal({ graph, onClose }: { graph: StateGraph; onClose: () => void }) {
+  const [selectedId, setSelectedId] = useState<string | null>(graph.nodes[0]?.id ?? null)
+  const selected = graph.nodes.find((n) => n.id === selectedId)
+  const violating = graph.nodes.filter((n) => n.violated.length > 0).length
+
+  // Close on Escape key
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handler)
+    return () => window.removeEventListener('keydown', handler)
+  }, [onClose])
+
+  const { nodes, edges } = useMemo(() => {
+    const positions = layoutStateGraph(graph)
+    const nodes: Node[] = graph.nodes.map((n) => {
+      const bad = n.violated.length > 0
+      return {
+        id: n.id,
+        position: positions[n.id],
+        data: { label: n.depth === 0 ? `${n.id} (init)` : n.id },
+        style: {
+          width: 90,
+          background: bad ? 'rgba(248,113,113,0.15)' : n.depth === 0 ? 'rgba(124,92,252,0.2)' : '#18122e',
+          border: `1px solid ${bad ? '#f87171' : n.depth === 0 ? '#7c5cfc' : '#2a1f4e'}`,
+          color: bad ? '#f87171' : '#e4e4f0',
+          borderRadius: 8,
+          fontSize: 11,
+          fontFamily: "'JetBrains Mono', monospace",
+        },
+      }
+    })
+    // Self-loops don't draw well; they are listed with the state instead
+    const edges: Edge[] = graph.edges
+      .filter((e) => e.from !== e.to)
+      .map((e, i) => ({
+        id: `e${i}`,
+        source: e.from,
+        target: e.to,
+        label: e.label,
+        markerEnd: { type: MarkerType.ArrowClosed, color: '#fb923c' },
+        style: { stroke: '#fb923c88' },
+        labelStyle: { fill: '#fb923c', fontSize: 10, fontFamily: "'JetBrains Mono', monospace" },
+        labelBgStyle: { fill: '#13101f' },
+      }))
+    return { nodes, edges }
+  }, [graph])
+
+  const outgoing = graph.edges.filter((e) => e.from === selectedId)
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.65)',
+        zIndex: 1000,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backdropFilter: 'blur(4px)',
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: '#13101f',
+          border: '1px solid #2a1f4e',
+          borderRadius: 16,
+          width: 'min(1200px, 94vw)',
+          height: '85vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 24px 80px rgba(0,0,0,0.7)',
+          overflow: 'hidden',
+        }}
+      >
+        {/* Header */}
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 10,
+            padding: '16px 20px',
+            borderBottom: '1px solid #2a1f4e',
+            flexShrink: 0,
+          }}
+        >
+          <div style={{ flex: 1 }}>
+            <div style={{ fontSize: 16, fontWeight: 700, color: '#e4e4f0' }}>Reachable States</div>
+            <div style={{ fontSize: 12, color: '#8878b8', marginTop: 2 }}>
+              {graph.nodes.length} states and {graph.edges.length} transitions up to depth {graph.depth}
+              {graph.truncated && ' (stopped early)'}
+              {violating > 0 && <span style={{ color: '#f87171' }}>{` \u00B7 ${violating} violating an invariant`}</span>}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'rgba(255,255,255,0.06)',
+              border: '1px solid rgba(255,255,255,0.1)',
+              borderRadius: 8,
+              color: '#8878b8',
+              fontSize: 13,
+              padding: '4px 12px',
+              cursor: 'pointer',
+              fontWeight: 600,
+              transition: 'all 0.15s',
+            }}
+          >
+            ESC
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{ flex: 1, display: 'flex', minHeight: 0 }}>
+          <div style={{ flex: 1, position: 'relative' }}>
+            {/* Its own provider, so it doesn't share state with the whiteboard canvas */}
+            <ReactFlowProvider>
+              <ReactFlow
+                nodes={nodes}
+                edges={edges}
+                onNodeClick={(_, node) => setSelectedId(node.id)}
+                nodesConnectable={false}
+                fitView
+                proOptions={{ hideAttribution: true }}
+                style={{ background: '#0e0a1a' }}
+              >
+                <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="#2a1f4e" />
+                <Controls showInteractive={false} />
+              </ReactFlow>
+            </ReactFlowProvider>
+          </div>
+
+          <div
+            style={{
+              width: 300,
+              borderLeft: '1px solid #2a1f4e',
+              padding: 16,
+              overflow: 'auto',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 12,
+            }}
+          >
+            {selected ? (
+              <>
+                <div style={{ fontSize: 13, fontWeight: 700, color: '#e4e4f0' }}>
+                  State {selected.id}
+                  <span style={{ fontSize: 11, fontWeight: 400, color: '#8878b8' }}>{` \u00B7 depth ${selected.depth}`}</span>
+                </div>
+                {selected.violated.length > 0 && (
+                  <div style={{ fontSize: 12, color: '#f87171' }}>Violates {selected.violated.join(', ')}</div>
+                )}
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                  {Object.entries(selected.state).map(([name, value]) => (
+                    <div
+                      key={name}
+                      style={{ fontSize: 11, fontFamily: "'JetBrains Mono', monospace", color: '#e4e4f0', wordBreak: 'break-word' }}
+                    >
+                      <span style={{ color: '#8878b8' }}>{name}</span> = {value}
+                    </div>
+                  ))}
+                </div>
+                {outgoing.length > 0 && (
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                    <span style={{ fontSize: 11, color: '#8878b8', fontWeight: 600 }}>Transitions</span>
+                    {outgoing.map((e, i) => (
+                      <button
+                        key={i}
+                        onClick={() => setSelectedId(e.to)}
+                        style={{
+                          textAlign: 'left',
+                          background: 'none',
+                          border: 'none',
+                          padding: 0,
+                          color: '#fb923c',
+                          fontSize: 11,
+                          fontFamily: "'JetBrains Mono', monospace",
+                          cursor: 'pointer',
+                        }}
+                      >
+                        {e.label} {'\u2192'} {e.to === e.from ? 'itself' : e.to}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </>
+            ) : (
+              <div style={{ fontSize: 12, color: '#5a4d80' }}>Click a state to see its variables.</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
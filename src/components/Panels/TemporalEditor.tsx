@@ -0,0 +1,102 @@
+import { useAppStore } from '../../model/store'
+import type { VisualDeclaration } from '../../model/spec'
+
+const COLOR = '#e879f9'
+
+/**
+ * Snippet buttons for temporal formulas. `always` and `eventually` wrap the
+ * current body; the others append a template to fill in. Quint has no
+ * `leadsTo` builtin, so it is spelled out as `always(P implies eventually(Q))`.
+ */
+export default function TemporalEditor({
+  decl,
+  onUpdate,
+}: {
+  decl: VisualDeclaration
+  onUpdate: (u: Partial<VisualDeclaration>) => void
+}) {
+  const nodes = useAppStore((s) => s.nodes)
+  const decls = nodes.filter((n) => n.type !== 'role-group').map((n) => n.data as VisualDeclaration)
+  const varNames = decls.filter((d) => d.kind === 'var' && d.name).map((d) => d.name)
+  // A single variable goes bare; `()` would not parse, so fairness needs at least one
+  const vars = varNames.length === 1 ? varNames[0] : `(${varNames.join(', ')})`
+  const noVars = varNames.length === 0
+  const hasStep = decls.some((d) => d.kind === 'action' && (d.role === 'step' || d.name === 'step'))
+  const action = hasStep ? 'step' : decls.find((d) => d.kind === 'action' && d.name)?.name ?? 'step'
+
+  const body = decl.body.trim()
+  const wrap = (op: string) => onUpdate({ body: `${op}(${body || 'true'})` })
+  const append = (snippet: string) => onUpdate({ body: body ? `${body} and ${snippet}` : snippet })
+
+  return (
+    <div>
+      <div style={labelStyle}>Operators</div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4 }}>
+        <SnippetButton label="always" title="Wrap the body: holds in every state" onClick={() => wrap('always')} />
+        <SnippetButton
+          label="eventually"
+          title="Wrap the body: holds in some future state"
+          onClick={() => wrap('eventually')}
+        />
+        <SnippetButton
+          label="leadsTo"
+          title="Whenever P holds, Q holds later"
+          onClick={() => append('always(P implies eventually(Q))')}
+        />
+        <SnippetButton
+          label="weakFair"
+          title={noVars ? 'Add a state variable first' : `Weak fairness of ${action} over the state variables`}
+          disabled={noVars}
+          onClick={() => append(`weakFair(${action}, ${vars})`)}
+        />
+        <SnippetButton
+          label="strongFair"
+          title={noVars ? 'Add a state variable first' : `Strong fairness of ${action} over the state variables`}
+          disabled={noVars}
+          onClick={() => append(`strongFair(${action}, ${vars})`)}
+        />
+      </div>
+    </div>
+  )
+}
+
+function SnippetButton({
+  label,
+  title,
+  disabled,
+  onClick,
+}: {
+  label: string
+  title: string
+  disabled?: boolean
+  onClick: () => void
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      disabled={disabled}
+      style={{
+        background: 'rgba(232,121,249,0.08)',
+        color: COLOR,
+        border: '1px solid rgba(232,121,249,0.25)',
+        borderRadius: 5,
+        padding: '4px 8px',
+        fontSize: 11,
+        fontWeight: 600,
+        fontFamily: "'JetBrains Mono', monospace",
+        cursor: disabled ? 'default' : 'pointer',
+        opacity: disabled ? 0.4 : 1,
+      }}
+    >
+      {label}
+    </button>
+  )
+}
+
+const labelStyle: React.CSSProperties = {
+  fontSize: 11,
+  fontWeight: 500,
+  color: '#8878b8',
+  marginBottom: 4,
+}
@@ -1,7 +1,8 @@
 import { useReactFlow } from '@xyflow/react'
 import { useAppStore } from '../../model/store'
 import type { DeclKind } from '../../model/spec'
-import { useCallback, useEffect, useState } from 'react'
+import { shareLink } from '../../model/shareLink'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { createPortal } from 'react-dom'
 
 const DECL_COLORS: Record<DeclKind, string> = {
@@ -12,6 +13,8 @@ const DECL_COLORS: Record<DeclKind, string> = {
   action: '#fb923c',
   type: '#f472b6',
   assume: '#94a3b8',
+  run: '#2dd4bf',
+  temporal: '#e879f9',
 }
 
 export default function Toolbar({
@@ -25,12 +28,21 @@ export default function Toolbar({
   const setModuleName = useAppStore((s) => s.setModuleName)
   const addDeclNode = useAppStore((s) => s.addDeclNode)
   const addStateMachineNodes = useAppStore((s) => s.addStateMachineNodes)
+  const importQuintModule = useAppStore((s) => s.importQuintModule)
   const undo = useAppStore((s) => s.undo)
   const redo = useAppStore((s) => s.redo)
   const clearCanvas = useAppStore((s) => s.clearCanvas)
   const toggleCodePreview = useAppStore((s) => s.toggleCodePreview)
   const [showClearConfirm, setShowClearConfirm] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
+  /** Set after copying a share link; 'partial' when the workspace has more than the link carries */
+  const [linkCopied, setLinkCopied] = useState<'all' | 'partial' | null>(null)
+  /** Share link the clipboard refused, shown to copy by hand */
+  const [uncopiedLink, setUncopiedLink] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
   const showCodePreview = useAppStore((s) => s.showCodePreview)
+  const showDependencies = useAppStore((s) => s.showDependencies)
+  const toggleDependencies = useAppStore((s) => s.toggleDependencies)
   const { screenToFlowPosition, fitView } = useReactFlow()
 
   const getViewportCenter = () => {
@@ -47,6 +59,34 @@ export default function Toolbar({
     })
   }
 
+  const handleShare = async () => {
+    // Read at click time so the toolbar doesn't re-render on every node move
+    const { nodes, edges, imports, modules } = useAppStore.getState()
+    const link = await shareLink({ moduleName, nodes, edges })
+    try {
+      await navigator.clipboard.writeText(link)
+      setLinkCopied(imports.length > 0 || modules.length > 1 ? 'partial' : 'all')
+      setTimeout(() => setLinkCopied(null), 3000)
+    } catch {
+      setUncopiedLink(link)
+    }
+  }
+
+  const handleOpenFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Reset so picking the same file again still fires onChange
+    e.target.value = ''
+    if (!file) return
+    try {
+      importQuintModule(await file.text())
+      setTimeout(() => {
+        fitView({ padding: 0.15, duration: 200 })
+      }, 50)
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
   const addAtCenter = (kind: DeclKind) => {
     const center = getViewportCenter()
     addDeclNode(kind, center.x - 70, center.y - 20)
@@ -117,7 +157,7 @@ export default function Toolbar({
       <Separator />
 
       {/* Declaration type buttons */}
-      {(['var', 'const', 'action', 'def', 'val', 'type'] as DeclKind[]).map((kind) => (
+      {(['var', 'const', 'action', 'def', 'val', 'temporal', 'type', 'run'] as DeclKind[]).map((kind) => (
         <DeclButton
           key={kind}
           kind={kind}
@@ -141,6 +181,23 @@ export default function Toolbar({
           }, 50)
         }}
       />
+      <ToolbarButton
+        label="Open .qnt"
+        title="Load declarations from an existing Quint module (replaces the canvas)"
+        onClick={() => fileInputRef.current?.click()}
+      />
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".qnt"
+        onChange={handleOpenFile}
+        style={{ display: 'none' }}
+      />
+      <ToolbarButton
+        label={linkCopied === 'partial' ? 'Copied (this module only)' : linkCopied ? 'Link copied' : 'Share link'}
+        title="Copy a link that opens this module's canvas as a new project in any browser. Other modules and imports are not included"
+        onClick={handleShare}
+      />
       <Separator />
 
       <ToolbarButton label={'\u21A9'} title="Undo (Ctrl+Z)" onClick={undo} />
@@ -152,6 +209,18 @@ export default function Toolbar({
         active={showCodePreview}
         onClick={toggleCodePreview}
       />
+      <ToolbarButton
+        label="Reads"
+        title="Toggle derived edges to the declarations each body references"
+        active={showDependencies.reads}
+        onClick={() => toggleDependencies('reads')}
+      />
+      <ToolbarButton
+        label="Writes"
+        title="Toggle derived edges from actions to the state variables they assign"
+        active={showDependencies.writes}
+        onClick={() => toggleDependencies('writes')}
+      />
       <ToolbarButton
         label={'\u25B6 Run'}
         title="Toggle execution panel"
@@ -174,6 +243,24 @@ export default function Toolbar({
         />,
         document.body,
       )}
+
+      {uncopiedLink && createPortal(
+        <NoticeModal
+          title="Copy this link"
+          message={`${uncopiedLink}\n\nIt carries this module's canvas only, without other modules or imports.`}
+          onClose={() => setUncopiedLink(null)}
+        />,
+        document.body,
+      )}
+
+      {importError && createPortal(
+        <NoticeModal
+          title="Could not open module"
+          message={importError}
+          onClose={() => setImportError(null)}
+        />,
+        document.body,
+      )}
     </div>
   )
 }
@@ -371,3 +458,83 @@ function ConfirmModal({
     </div>
   )
 }
+
+function NoticeModal({
+  title,
+  message,
+  onClose,
+}: {
+  title: string
+  message: string
+  onClose: () => void
+}) {
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' || e.key === 'Enter') onClose()
+    }
+    window.addEventListener('keydown', handler)
+    return () => window.removeEventListener('keydown', handler)
+  }, [onClose])
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.5)',
+        backdropFilter: 'blur(4px)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: '#1a1430',
+          border: '1px solid #2a1f4e',
+          borderRadius: 12,
+          padding: '24px 32px',
+          maxWidth: 480,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 12,
+          boxShadow: '0 8px 32px rgba(0,0,0,0.5)',
+        }}
+      >
+        <p style={{ color: '#f87171', fontSize: 14, fontWeight: 600, margin: 0 }}>{title}</p>
+        <p
+          style={{
+            color: '#e4e4f0',
+            fontSize: 12,
+            fontFamily: "'JetBrains Mono', monospace",
+            margin: 0,
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word',
+          }}
+        >
+          {message}
+        </p>
+        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'rgba(255,255,255,0.06)',
+              color: '#8878b8',
+              border: '1px solid #2a1f4e',
+              borderRadius: 7,
+              padding: '8px 18px',
+              fontSize: 13,
+              fontWeight: 600,
+              cursor: 'pointer',
+            }}
+          >
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
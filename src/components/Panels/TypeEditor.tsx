@@ -0,0 +1,224 @@
+import { type TypeDef, type VisualDeclaration, typeDefToQuint } from '../../model/spec'
+import { parseTypeDef } from '../../model/parser'
+
+const DEFAULT_SUM: TypeDef = {
+  kind: 'sum',
+  variants: [
+    { name: 'A', payload: '' },
+    { name: 'B', payload: 'int' },
+  ],
+}
+
+const DEFAULT_RECORD: TypeDef = { kind: 'record', fields: [{ name: 'id', type: 'int' }] }
+
+/** A variant or field: both are a name plus a (possibly empty) type */
+type Row = { name: string; type: string }
+
+function rowsOf(def: TypeDef): Row[] {
+  return def.kind === 'sum'
+    ? def.variants.map((v) => ({ name: v.name, type: v.payload }))
+    : def.fields.map((f) => ({ name: f.name, type: f.type }))
+}
+
+function withRows(kind: TypeDef['kind'], rows: Row[]): TypeDef {
+  return kind === 'sum'
+    ? { kind, variants: rows.map((r) => ({ name: r.name, payload: r.type })) }
+    : { kind, fields: rows.map((r) => ({ name: r.name, type: r.type })) }
+}
+
+/**
+ * Builds a type body as a sum type (one constructor per row, with an optional
+ * payload) or a record (one field per row). Typing in the Body field instead
+ * detaches the editor and keeps the text as written.
+ */
+export default function TypeEditor({
+  decl,
+  onUpdate,
+}: {
+  decl: VisualDeclaration
+  onUpdate: (u: Partial<VisualDeclaration>) => void
+}) {
+  const typeDef = decl.typeDef
+  const apply = (next: TypeDef) => onUpdate({ typeDef: next, body: typeDefToQuint(next) })
+
+  if (!typeDef) {
+    const parsed = parseTypeDef(decl.body)
+    return (
+      <div>
+        <div style={labelStyle}>Structure</div>
+        <div style={{ display: 'flex', gap: 4 }}>
+          <button
+            onClick={() => apply(parsed?.kind === 'sum' ? parsed : DEFAULT_SUM)}
+            title="Edit as constructors, e.g. A | B(int)"
+            style={addButtonStyle}
+          >
+            Sum type
+          </button>
+          <button
+            onClick={() => apply(parsed?.kind === 'record' ? parsed : DEFAULT_RECORD)}
+            title="Edit as fields, e.g. { id: int, from: str }"
+            style={addButtonStyle}
+          >
+            Record
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const rows = rowsOf(typeDef)
+  const isSum = typeDef.kind === 'sum'
+  const setRows = (next: Row[]) => apply(withRows(typeDef.kind, next))
+  const updateRow = (index: number, row: Row) => setRows(rows.map((r, i) => (i === index ? row : r)))
+  const moveRow = (index: number, delta: number) => {
+    const target = index + delta
+    if (target < 0 || target >= rows.length) return
+    const next = [...rows]
+    const [moved] = next.splice(index, 1)
+    next.splice(target, 0, moved)
+    setRows(next)
+  }
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 4, marginBottom: 4 }}>
+        <div style={{ ...labelStyle, marginBottom: 0, flex: 1 }}>{isSum ? 'Variants' : 'Fields'}</div>
+        {(['sum', 'record'] as const).map((kind) => (
+          <button
+            key={kind}
+            onClick={() => kind !== typeDef.kind && apply(withRows(kind, rows))}
+            style={{
+              ...toggleStyle,
+              background: kind === typeDef.kind ? 'rgba(244,114,182,0.15)' : 'transparent',
+              color: kind === typeDef.kind ? '#f472b6' : '#5a4d80',
+            }}
+          >
+            {kind}
+          </button>
+        ))}
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+        {rows.map((row, i) => (
+          <div key={i} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+            {isSum && <span style={keywordStyle}>|</span>}
+            <input
+              value={row.name}
+              onChange={(e) => updateRow(i, { ...row, name: e.target.value })}
+              placeholder={isSum ? 'Name' : 'field'}
+              style={{ ...fieldStyle, width: 90, flexShrink: 0 }}
+            />
+            {!isSum && <span style={keywordStyle}>:</span>}
+            <input
+              value={row.type}
+              onChange={(e) => updateRow(i, { ...row, type: e.target.value })}
+              placeholder={isSum ? 'payload (optional)' : 'type'}
+              style={{ ...fieldStyle, flex: 1, minWidth: 0 }}
+            />
+            <IconButton label={'\u2191'} title="Move up" onClick={() => moveRow(i, -1)} />
+            <IconButton label={'\u2193'} title="Move down" onClick={() => moveRow(i, 1)} />
+            <IconButton
+              label={'\u2715'}
+              title="Remove"
+              danger
+              onClick={() => setRows(rows.filter((_, j) => j !== i))}
+            />
+          </div>
+        ))}
+
+        <div style={{ display: 'flex', gap: 4, marginTop: 2 }}>
+          <button
+            onClick={() => setRows([...rows, isSum ? { name: '', type: '' } : { name: '', type: 'int' }])}
+            style={addButtonStyle}
+          >
+            {isSum ? '+ variant' : '+ field'}
+          </button>
+          <button
+            onClick={() => onUpdate({ typeDef: undefined })}
+            title="Stop using the editor and edit the body as text"
+            style={{ ...addButtonStyle, marginLeft: 'auto', color: '#5a4d80' }}
+          >
+            Text only
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function IconButton({
+  label,
+  title,
+  onClick,
+  danger,
+}: {
+  label: string
+  title: string
+  onClick: () => void
+  danger?: boolean
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      style={{
+        background: danger ? 'rgba(248,113,113,0.1)' : 'transparent',
+        color: danger ? '#f87171' : '#8878b8',
+        border: 'none',
+        borderRadius: 5,
+        padding: '3px 6px',
+        fontSize: 11,
+        cursor: 'pointer',
+        flexShrink: 0,
+      }}
+    >
+      {label}
+    </button>
+  )
+}
+
+const labelStyle: React.CSSProperties = {
+  fontSize: 11,
+  fontWeight: 500,
+  color: '#8878b8',
+  marginBottom: 4,
+}
+
+const keywordStyle: React.CSSProperties = {
+  fontSize: 12,
+  fontWeight: 700,
+  color: '#f472b6',
+  fontFamily: "'JetBrains Mono', monospace",
+  flexShrink: 0,
+}
+
+const fieldStyle: React.CSSProperties = {
+  background: '#18122e',
+  border: '1px solid #2a1f4e',
+  borderRadius: 5,
+  padding: '4px 6px',
+  color: '#e4e4f0',
+  fontSize: 11,
+  fontFamily: "'JetBrains Mono', monospace",
+  outline: 'none',
+}
+
+const toggleStyle: React.CSSProperties = {
+  border: '1px solid #2a1f4e',
+  borderRadius: 5,
+  padding: '2px 8px',
+  fontSize: 10,
+  fontWeight: 600,
+  fontFamily: "'JetBrains Mono', monospace",
+  cursor: 'pointer',
+}
+
+const addButtonStyle: React.CSSProperties = {
+  background: 'rgba(244,114,182,0.08)',
+  color: '#f472b6',
+  border: '1px dashed rgba(244,114,182,0.3)',
+  borderRadius: 5,
+  padding: '4px 10px',
+  fontSize: 11,
+  fontWeight: 600,
+  cursor: 'pointer',
+}
@@ -0,0 +1,320 @@
+import { useAppStore } from '../../model/store'
+import type { VisualDeclaration } from '../../model/spec'
+import { type TypeExpr, declaredTypes, parseTypeExpr, typeExprToQuint } from '../../model/typeExpr'
+
+const INT: TypeExpr = { kind: 'int' }
+
+const KIND_LABELS: [TypeExpr['kind'], string][] = [
+  ['int', 'int'],
+  ['str', 'str'],
+  ['bool', 'bool'],
+  ['set', 'Set[\u2026]'],
+  ['list', 'List[\u2026]'],
+  ['map', '\u2026 -> \u2026'],
+  ['tuple', '(\u2026, \u2026)'],
+  ['record', '{ \u2026 }'],
+]
+
+/** A fresh type of the chosen kind, keeping the element type when switching between Set and List */
+function defaultFor(kind: TypeExpr['kind'], current: TypeExpr): TypeExpr {
+  switch (kind) {
+    case 'int':
+    case 'str':
+    case 'bool':
+      return { kind }
+    case 'set':
+    case 'list':
+      return { kind, elem: current.kind === 'set' || current.kind === 'list' ? current.elem : INT }
+    case 'map':
+      return { kind, key: { kind: 'str' }, value: INT }
+    case 'tuple':
+      return { kind, items: [INT, INT] }
+    case 'record':
+      return { kind, fields: [{ name: 'id', type: INT }] }
+    case 'named':
+      return current
+  }
+}
+
+/**
+ * Composable picker for `var`/`const` types. Reads and writes the same type
+ * string as the text field, so types it can't represent stay text-only.
+ */
+export default function TypePicker({ value, onChange }: { value: string; onChange: (type: string) => void }) {
+  const nodes = useAppStore((s) => s.nodes)
+  const declared = declaredTypes(
+    nodes
+      .filter((n) => n.type !== 'role-group')
+      .map((n) => n.data as VisualDeclaration)
+      .filter((d) => d.kind === 'type' && d.name)
+      .map((d) => d.name)
+  )
+
+  const expr = value.trim() ? parseTypeExpr(value) : INT
+  if (!expr) {
+    return (
+      <div style={{ marginTop: 6, fontSize: 11, color: '#5a4d80' }}>
+        The type builder can't show this type; edit it as text.
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ marginTop: 6 }}>
+      <TypeExprEditor expr={expr} declared={declared} onChange={(next) => onChange(typeExprToQuint(next))} />
+    </div>
+  )
+}
+
+function TypeExprEditor({
+  expr,
+  declared,
+  onChange,
+}: {
+  expr: TypeExpr
+  declared: Map<string, number>
+  onChange: (expr: TypeExpr) => void
+}) {
+  const selected = expr.kind === 'named' ? `named:${expr.name}` : expr.kind
+  const unknown = expr.kind === 'named' && !declared.has(expr.name)
+
+  const select = (
+    <select
+      value={selected}
+      onChange={(e) => {
+        const v = e.target.value
+        if (v.startsWith('named:')) {
+          const name = v.slice('named:'.length)
+          onChange({ kind: 'named', name, args: Array.from({ length: declared.get(name) ?? 0 }, () => INT) })
+        } else {
+          onChange(defaultFor(v as TypeExpr['kind'], expr))
+        }
+      }}
+      style={{ ...fieldStyle, borderColor: unknown ? 'rgba(251,191,36,0.5)' : '#2a1f4e' }}
+    >
+      {KIND_LABELS.map(([kind, label]) => (
+        <option key={kind} value={kind}>
+          {label}
+        </option>
+      ))}
+      {(declared.size > 0 || unknown) && (
+        <optgroup label="Declared types">
+          {[...declared.keys()].map((name) => (
+            <option key={name} value={`named:${name}`}>
+              {name}
+            </option>
+          ))}
+          {unknown && <option value={selected}>{`${expr.name} (not declared)`}</option>}
+        </optgroup>
+      )}
+    </select>
+  )
+
+  switch (expr.kind) {
+    case 'int':
+    case 'str':
+    case 'bool':
+      return select
+
+    case 'set':
+    case 'list':
+      return (
+        <div>
+          {select}
+          <Nested>
+            <TypeExprEditor expr={expr.elem} declared={declared} onChange={(elem) => onChange({ ...expr, elem })} />
+          </Nested>
+        </div>
+      )
+
+    case 'map':
+      return (
+        <div>
+          {select}
+          <Nested>
+            <Slot label="key">
+              <TypeExprEditor expr={expr.key} declared={declared} onChange={(key) => onChange({ ...expr, key })} />
+            </Slot>
+            <Slot label="value">
+              <TypeExprEditor
+                expr={expr.value}
+                declared={declared}
+                onChange={(value) => onChange({ ...expr, value })}
+              />
+            </Slot>
+          </Nested>
+        </div>
+      )
+
+    case 'tuple': {
+      const setItems = (items: TypeExpr[]) => onChange({ ...expr, items })
+      return (
+        <div>
+          {select}
+          <Nested>
+            {expr.items.map((item, i) => (
+              <Slot
+                key={i}
+                label={`#${i}`}
+                onRemove={expr.items.length > 2 ? () => setItems(expr.items.filter((_, j) => j !== i)) : undefined}
+              >
+                <TypeExprEditor
+                  expr={item}
+                  declared={declared}
+                  onChange={(next) => setItems(expr.items.map((it, j) => (j === i ? next : it)))}
+                />
+              </Slot>
+            ))}
+            <button onClick={() => setItems([...expr.items, INT])} style={addButtonStyle}>
+              + element
+            </button>
+          </Nested>
+        </div>
+      )
+    }
+
+    case 'record': {
+      const setFields = (fields: typeof expr.fields) => onChange({ ...expr, fields })
+      // Only identifiers keep the type parseable, and an empty name would not be
+      const rename = (i: number, raw: string) => {
+        const name = raw.replace(/\W/g, '')
+        if (name) setFields(expr.fields.map((f, j) => (j === i ? { ...f, name } : f)))
+      }
+      return (
+        <div>
+          {select}
+          <Nested>
+            {expr.fields.map((field, i) => (
+              <div key={i} style={{ display: 'flex', alignItems: 'flex-start', gap: 4 }}>
+                <input
+                  value={field.name}
+                  onChange={(e) => rename(i, e.target.value)}
+                  placeholder="field"
+                  style={{ ...fieldStyle, width: 70, flexShrink: 0 }}
+                />
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <TypeExprEditor
+                    expr={field.type}
+                    declared={declared}
+                    onChange={(type) => setFields(expr.fields.map((f, j) => (j === i ? { ...f, type } : f)))}
+                  />
+                </div>
+                <RemoveButton onClick={() => setFields(expr.fields.filter((_, j) => j !== i))} />
+              </div>
+            ))}
+            <button onClick={() => setFields([...expr.fields, { name: `field${expr.fields.length + 1}`, type: INT }])} style={addButtonStyle}>
+              + field
+            </button>
+          </Nested>
+        </div>
+      )
+    }
+
+    case 'named':
+      if (expr.args.length === 0) return select
+      return (
+        <div>
+          {select}
+          <Nested>
+            {expr.args.map((arg, i) => (
+              <TypeExprEditor
+                key={i}
+                expr={arg}
+                declared={declared}
+                onChange={(next) => onChange({ ...expr, args: expr.args.map((a, j) => (j === i ? next : a)) })}
+              />
+            ))}
+          </Nested>
+        </div>
+      )
+  }
+}
+
+function Nested({ children }: { children: React.ReactNode }) {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 4,
+        marginTop: 4,
+        marginLeft: 6,
+        paddingLeft: 8,
+        borderLeft: '1px solid #2a1f4e',
+      }}
+    >
+      {children}
+    </div>
+  )
+}
+
+function Slot({
+  label,
+  onRemove,
+  children,
+}: {
+  label: string
+  onRemove?: () => void
+  children: React.ReactNode
+}) {
+  return (
+    <div style={{ display: 'flex', alignItems: 'flex-start', gap: 4 }}>
+      <span style={slotLabelStyle}>{label}</span>
+      <div style={{ flex: 1, minWidth: 0 }}>{children}</div>
+      {onRemove && <RemoveButton onClick={onRemove} />}
+    </div>
+  )
+}
+
+function RemoveButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      title="Remove"
+      style={{
+        background: 'rgba(248,113,113,0.1)',
+        color: '#f87171',
+        border: 'none',
+        borderRadius: 5,
+        padding: '3px 6px',
+        fontSize: 11,
+        cursor: 'pointer',
+        flexShrink: 0,
+      }}
+    >
+      {'\u2715'}
+    </button>
+  )
+}
+
+const fieldStyle: React.CSSProperties = {
+  background: '#18122e',
+  border: '1px solid #2a1f4e',
+  borderRadius: 5,
+  padding: '4px 6px',
+  color: '#e4e4f0',
+  fontSize: 11,
+  fontFamily: "'JetBrains Mono', monospace",
+  outline: 'none',
+}
+
+const slotLabelStyle: React.CSSProperties = {
+  fontSize: 10,
+  color: '#5a4d80',
+  fontFamily: "'JetBrains Mono', monospace",
+  width: 34,
+  paddingTop: 5,
+  flexShrink: 0,
+}
+
+const addButtonStyle: React.CSSProperties = {
+  alignSelf: 'flex-start',
+  background: 'rgba(96,165,250,0.08)',
+  color: '#60a5fa',
+  border: '1px dashed rgba(96,165,250,0.3)',
+  borderRadius: 5,
+  padding: '3px 8px',
+  fontSize: 10,
+  fontWeight: 600,
+  cursor: 'pointer',
+}
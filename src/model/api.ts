@@ -0,0 +1,86 @@
+import type { ItfTrace } from './itf'
+
+/** A compiler error location reported by `quint typecheck` (1-based) */
+export interface QuintLocation {
+  /** Workspace module the error is in (the file name without `.qnt`) */
+  module: string
+  line: number
+  column: number
+  message: string
+}
+
+export interface QuintResponse {
+  ok: boolean
+  output: string
+  errors?: QuintLocation[]
+  /** ITF trace of a `run` (the counterexample when an invariant fails) */
+  trace?: ItfTrace
+  /** Seed a `run` used, to reproduce it */
+  seed?: string
+}
+
+/** POST to one of the `/api/quint/*` endpoints */
+export async function quintApi(endpoint: string, body: object): Promise<QuintResponse> {
+  const res = await fetch(`/api/quint/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  return res.json()
+}
+
+export type QuintOutputHandler = (stream: 'stdout' | 'stderr', text: string) => void
+
+/**
+ * POST to a long-running `/api/quint/*` endpoint with `stream: true`, passing
+ * output chunks to `onOutput` as Quint prints them. Aborting `signal` cancels
+ * the request, which kills the Quint process on the server.
+ */
+export async function quintStream(
+  endpoint: string,
+  body: object,
+  onOutput: QuintOutputHandler,
+  signal?: AbortSignal
+): Promise<QuintResponse> {
+  const res = await fetch(`/api/quint/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  })
+  if (!res.body || !res.headers.get('Content-Type')?.startsWith('text/event-stream')) {
+    return res.json()
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+  for (;;) {
+    const { value, done } = await reader.read()
+    if (done) break
+    buffer += value
+
+    // Events are separated by a blank line
+    let end: number
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const event = parseEvent(buffer.slice(0, end))
+      buffer = buffer.slice(end + 2)
+      if (event.name === 'output') {
+        const { stream, text } = event.data as { stream: 'stdout' | 'stderr'; text: string }
+        onOutput(stream, text)
+      } else if (event.name === 'result') {
+        return event.data as QuintResponse
+      }
+    }
+  }
+  throw new Error('The Quint API closed the stream without a result')
+}
+
+function parseEvent(raw: string): { name: string; data: unknown } {
+  let name = 'message'
+  let data = ''
+  for (const line of raw.split('\n')) {
+    if (line.startsWith('event:')) name = line.slice(6).trim()
+    else if (line.startsWith('data:')) data += line.slice(5).trim()
+  }
+  return { name, data: data ? JSON.parse(data) : null }
+}
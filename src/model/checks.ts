@@ -0,0 +1,184 @@
+import type { ModuleImport, VisualDeclaration } from './spec'
+import { identifierRefs, qualifiedRefs } from './dependencies'
+import { checkTypeExpr, declaredTypes, parseTypeExpr } from './typeExpr'
+
+/** Words the Quint parser reserves, which cannot be used as declaration names */
+export const RESERVED_WORDS = new Set([
+  'module', 'import', 'export', 'from', 'as',
+  'const', 'var', 'val', 'def', 'pure', 'action', 'temporal', 'nondet', 'assume', 'type', 'run',
+  'if', 'else', 'match', 'all', 'any', 'and', 'or', 'iff', 'implies', 'not',
+  'true', 'false', 'Set', 'List', 'Int', 'Nat', 'Bool', 'int', 'str', 'bool',
+])
+
+/** Builtin operators and values that may appear unqualified in a body, after Quint's builtin signatures */
+const BUILTINS = new Set([
+  ...RESERVED_WORDS,
+  // Types and constructors
+  'Map', 'Rec', 'Tup', 'String', 'variant', 'matchVariant',
+  // Sets
+  'exists', 'forall', 'map', 'filter', 'fold', 'size', 'contains', 'in', 'subseteq', 'union',
+  'intersect', 'exclude', 'powerset', 'flatten', 'oneOf', 'chooseSome', 'isFinite',
+  'getOnlyElement', 'allLists', 'allListsUpTo', 'tuples', 'to',
+  // Maps
+  'get', 'keys', 'set', 'setBy', 'put', 'mapBy', 'setToMap', 'setOfMaps',
+  // Lists
+  'length', 'head', 'tail', 'nth', 'append', 'concat', 'indices', 'replaceAt', 'slice', 'range',
+  'select', 'foldl', 'foldr',
+  // Records and tuples
+  'with', 'field', 'fieldNames', 'item', 'label',
+  // Actions, runs and temporal operators
+  'assign', 'then', 'reps', 'expect', 'fail', 'assert', 'actionAll', 'actionAny', 'unchanged',
+  'always', 'eventually', 'next', 'orKeep', 'mustChange', 'enabled', 'weakFair', 'strongFair',
+  // Operator forms of the infix syntax
+  'ite', 'iadd', 'isub', 'imul', 'idiv', 'imod', 'ipow', 'iuminus', 'ilt', 'igt', 'ilte', 'igte',
+  'eq', 'neq',
+])
+
+/** Constructors introduced by a sum type body, e.g. `A | B(int)` */
+function variantNames(body: string): string[] {
+  return [...body.matchAll(/(?:^|\|)\s*([A-Za-z_]\w*)/g)].map((m) => m[1])
+}
+
+/** Names brought into scope by the imports of a module */
+function importedNames(imports: ModuleImport[], moduleDecls: Map<string, VisualDeclaration[]>): string[] {
+  return imports.flatMap((imp) => {
+    if (imp.name === '*') return (moduleDecls.get(imp.module) ?? []).flatMap(declaredNames)
+    return imp.name ? [imp.name] : []
+  })
+}
+
+/** Qualifiers a module's bodies may use (`L::x`), mapped to the module they name */
+function importQualifiers(imports: ModuleImport[]): Map<string, string> {
+  // An alias replaces the module name as the qualifier
+  return new Map(imports.filter((imp) => imp.module).map((imp) => [(!imp.name && imp.alias) || imp.module, imp.module]))
+}
+
+/** `type` declaration names in scope: local ones plus those imported from other modules */
+function typeNamesInScope(
+  decls: VisualDeclaration[],
+  imports: ModuleImport[],
+  moduleDecls: Map<string, VisualDeclaration[]>
+): string[] {
+  const imported = imports.flatMap((imp) =>
+    (moduleDecls.get(imp.module) ?? []).filter(
+      (d) => d.kind === 'type' && (imp.name === '*' || d.name.replace(/\[.*$/, '') === imp.name)
+    )
+  )
+  return [...decls, ...imported].filter((d) => d.kind === 'type' && d.name).map((d) => d.name)
+}
+
+/** Names a declaration makes available to other bodies */
+function declaredNames(d: VisualDeclaration): string[] {
+  if (!d.name) return []
+  // `type Name[a] = ...` declares `Name`
+  const name = d.name.replace(/\[.*$/, '')
+  return d.kind === 'type' ? [name, ...variantNames(d.body)] : [name]
+}
+
+/**
+ * Static checks that need no `quint` binary: duplicate and reserved names,
+ * references to undeclared identifiers, primed variables outside actions and
+ * conflicting init/step roles. Returns warnings keyed by node id.
+ *
+ * `otherModules` maps module names to their declarations so imported names
+ * resolve.
+ */
+export function checkDeclarations(
+  decls: VisualDeclaration[],
+  imports: ModuleImport[] = [],
+  otherModules: Map<string, VisualDeclaration[]> = new Map()
+): Record<string, string[]> {
+  const warnings: Record<string, string[]> = {}
+  const warn = (id: string, message: string) => {
+    warnings[id] = [...(warnings[id] ?? []), message]
+  }
+
+  const known = new Set([...BUILTINS, ...importedNames(imports, otherModules)])
+  const qualifiers = importQualifiers(imports)
+  const vars = new Set<string>()
+  const count = new Map<string, number>()
+  for (const d of decls) {
+    for (const name of declaredNames(d)) known.add(name)
+    if (d.kind === 'var') vars.add(d.name)
+    if (d.name) count.set(d.name, (count.get(d.name) ?? 0) + 1)
+  }
+
+  const initActions = decls.filter((d) => d.kind === 'action' && d.role === 'init')
+  const stepActions = decls.filter((d) => d.kind === 'action' && d.role === 'step')
+  // Combined init/step actions are generated from the roles
+  if (initActions.length > 0) known.add('init')
+  if (stepActions.length > 0) known.add('step')
+  const types = declaredTypes(typeNamesInScope(decls, imports, otherModules))
+  const explicit = (name: string) => decls.find((d) => d.kind === 'action' && d.name === name)
+
+  for (const d of decls) {
+    const name = d.name.replace(/\[.*$/, '')
+
+    // Names
+    if (!d.name) {
+      warn(d.id, 'Declaration has no name')
+    } else if (RESERVED_WORDS.has(name)) {
+      warn(d.id, `"${name}" is a reserved word and cannot be used as a name`)
+    } else if (!/^[A-Za-z_]\w*$/.test(name)) {
+      warn(d.id, `"${d.name}" is not a valid identifier`)
+    }
+    if ((count.get(d.name) ?? 0) > 1) {
+      warn(d.id, `Another declaration is also named "${d.name}"`)
+    }
+
+    // References
+    if (d.kind !== 'type' && d.body) {
+      const undeclared = new Set<string>()
+      for (const ref of identifierRefs(d)) {
+        if (!known.has(ref.name)) undeclared.add(ref.name)
+        if (ref.assigned && !vars.has(ref.name) && known.has(ref.name)) {
+          warn(d.id, `"${ref.name}" is assigned but is not a state variable`)
+        }
+      }
+      for (const ref of undeclared) warn(d.id, `"${ref}" is not declared`)
+      const unresolved = new Set<string>()
+      for (const ref of qualifiedRefs(d)) {
+        // Other qualifiers name things the checker doesn't model, like `q::debug`
+        const module = qualifiers.get(ref.qualifier)
+        const moduleDecls = module && otherModules.get(module)
+        if (moduleDecls && !moduleDecls.some((m) => declaredNames(m).includes(ref.name))) {
+          unresolved.add(`"${ref.qualifier}::${ref.name}" is not declared in ${module}`)
+        }
+      }
+      for (const message of unresolved) warn(d.id, message)
+    }
+
+    // Types of state variables and constants must only use declared types
+    if ((d.kind === 'var' || d.kind === 'const') && d.type) {
+      const type = parseTypeExpr(d.type)
+      if (type) for (const problem of checkTypeExpr(type, types)) warn(d.id, problem)
+    }
+
+    // Nondet domains of action parameters must point at something declared
+    for (const p of d.params) {
+      if (p.domain?.kind === 'ref' && !known.has(p.domain.name)) {
+        warn(d.id, `Domain of parameter "${p.name}" refers to "${p.domain.name}", which is not declared`)
+      }
+    }
+
+    // Primed variables only make sense in actions
+    if ((d.kind === 'val' || d.kind === 'def') && d.body) {
+      const primed = new Set([...d.body.matchAll(/\b(\w+)'/g)].map((m) => m[1]).filter((v) => vars.has(v)))
+      for (const v of primed) warn(d.id, `Primed variable "${v}'" is only allowed in actions`)
+    }
+
+    // Roles
+    for (const role of ['init', 'step'] as const) {
+      const withRole = role === 'init' ? initActions : stepActions
+      const named = explicit(role)
+      if (d.role === role && named && named.id !== d.id) {
+        warn(d.id, `An action named "${role}" already exists, so this ${role} action is never used`)
+      }
+      if (d.name === role && d.kind !== 'action' && withRole.length > 0) {
+        warn(d.id, `"${role}" clashes with the ${role} action generated from the ${role} role`)
+      }
+    }
+  }
+
+  return warnings
+}
@@ -0,0 +1,135 @@
+import { MarkerType, type Edge } from '@xyflow/react'
+import type { VisualDeclaration } from './spec'
+
+export type DependencyKind = 'reads' | 'writes'
+
+export interface Dependency {
+  kind: DependencyKind
+  /** Id of the declaration whose body contains the reference */
+  source: string
+  /** Id of the referenced declaration */
+  target: string
+}
+
+export const DEPENDENCY_COLORS: Record<DependencyKind, string> = {
+  reads: '#60a5fa',
+  writes: '#fb923c',
+}
+
+/** Blank out string literals and comments so identifiers inside them are ignored */
+function stripNonCode(src: string): string {
+  return src
+    .replace(/"(?:[^"\\]|\\.)*"/g, '""')
+    .replace(/\/\/[^\n]*/g, '')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+}
+
+/** Names bound inside a body, which shadow top-level declarations */
+function localNames(body: string): Set<string> {
+  const names = new Set<string>()
+  for (const m of body.matchAll(/\b(?:nondet|val|def|pure\s+val|pure\s+def)\s+(\w+)/g)) names.add(m[1])
+  // Lambda parameters: `x => ...` and `(x, y) => ...`
+  for (const m of body.matchAll(/\b(\w+)\s*=>/g)) names.add(m[1])
+  for (const m of body.matchAll(/\(([\w\s,]*)\)\s*=>/g)) {
+    for (const p of m[1].split(',')) if (p.trim()) names.add(p.trim())
+  }
+  return names
+}
+
+export interface IdentifierRef {
+  name: string
+  /** Assigned with `name' = ...` */
+  assigned: boolean
+}
+
+/**
+ * Free identifiers in a declaration body: names that are not bound by the
+ * body or the parameter list, not fields (`.name`), not record labels
+ * (`name: ...`) and not module-qualified (`M::name`).
+ */
+export function identifierRefs(d: VisualDeclaration): IdentifierRef[] {
+  const body = stripNonCode(d.body)
+  const shadowed = localNames(body)
+  for (const p of d.params) if (p.name) shadowed.add(p.name)
+
+  const refs: IdentifierRef[] = []
+  for (const m of body.matchAll(/\b([A-Za-z_]\w*)\b(::|\s*:(?!:)|'\s*=(?!=))?/g)) {
+    const [, name, suffix] = m
+    // Looked up rather than matched, as the `::` may already belong to the qualifier's match
+    const prefixed = /(\.|::)$/.test(body.slice(Math.max(0, m.index - 2), m.index))
+    if (prefixed || shadowed.has(name) || name === '_') continue
+    if (suffix && !suffix.startsWith("'")) continue
+    refs.push({ name, assigned: !!suffix })
+  }
+  return refs
+}
+
+/** Module-qualified references in a declaration body: `M::name` */
+export function qualifiedRefs(d: VisualDeclaration): { qualifier: string; name: string }[] {
+  return [...stripNonCode(d.body).matchAll(/\b([A-Za-z_]\w*)::([A-Za-z_]\w*)/g)].map(([, qualifier, name]) => ({
+    qualifier,
+    name,
+  }))
+}
+
+/**
+ * Find which declarations each body references ("reads") and which state
+ * variables each action assigns with `x' = ...` ("writes").
+ */
+export function analyzeDependencies(decls: VisualDeclaration[]): Dependency[] {
+  const byName = new Map<string, VisualDeclaration>()
+  for (const d of decls) if (d.name) byName.set(d.name, d)
+
+  const deps: Dependency[] = []
+  const seen = new Set<string>()
+  const add = (kind: DependencyKind, source: string, target: string) => {
+    const key = `${kind}:${source}:${target}`
+    if (source === target || seen.has(key)) return
+    seen.add(key)
+    deps.push({ kind, source, target })
+  }
+
+  for (const d of decls) {
+    if (!d.body) continue
+    for (const ref of identifierRefs(d)) {
+      const target = byName.get(ref.name)
+      if (!target) continue
+      if (ref.assigned) {
+        if (target.kind === 'var') add('writes', d.id, target.id)
+      } else {
+        add('reads', d.id, target.id)
+      }
+    }
+  }
+
+  return deps
+}
+
+/** Canvas edges for the derived dependencies of the enabled kinds */
+export function dependencyEdges(
+  decls: VisualDeclaration[],
+  show: Record<DependencyKind, boolean>
+): Edge[] {
+  return analyzeDependencies(decls)
+    .filter((dep) => show[dep.kind])
+    .map((dep) => {
+      const color = DEPENDENCY_COLORS[dep.kind]
+      return {
+        id: `dep-${dep.kind}-${dep.source}-${dep.target}`,
+        source: dep.source,
+        target: dep.target,
+        type: 'default',
+        selectable: false,
+        deletable: false,
+        focusable: false,
+        markerEnd: { type: MarkerType.ArrowClosed, color, width: 16, height: 16 },
+        style: {
+          stroke: color,
+          strokeWidth: 1.5,
+          strokeDasharray: dep.kind === 'reads' ? '4 4' : undefined,
+          opacity: 0.75,
+        },
+        data: { derived: dep.kind },
+      }
+    })
+}
@@ -0,0 +1,50 @@
+import type { SourceMapEntry, VisualDeclaration } from './spec'
+import type { QuintLocation } from './api'
+
+/** A typecheck error attributed to one node, positioned within its body */
+export interface NodeDiagnostic {
+  message: string
+  /** 1-based line within the node's body (1 for errors in the signature) */
+  bodyLine: number
+  /** Text of that body line, for display next to the message */
+  excerpt: string
+}
+
+/**
+ * Attribute typecheck errors to the nodes whose generated lines contain them.
+ * Errors outside every node (imports, generated init/step/tests, other
+ * modules) are returned separately.
+ */
+export function mapDiagnostics(
+  errors: QuintLocation[],
+  moduleName: string,
+  sourceMap: SourceMapEntry[],
+  decls: VisualDeclaration[]
+): { byNode: Record<string, NodeDiagnostic[]>; unmapped: QuintLocation[] } {
+  const byId = new Map(decls.map((d) => [d.id, d]))
+  const byNode: Record<string, NodeDiagnostic[]> = {}
+  const unmapped: QuintLocation[] = []
+
+  for (const err of errors) {
+    const entry =
+      err.module === moduleName
+        ? sourceMap.find((e) => err.line >= e.startLine && err.line <= e.endLine)
+        : undefined
+    const decl = entry && byId.get(entry.nodeId)
+    if (!entry || !decl) {
+      unmapped.push(err)
+      continue
+    }
+    const bodyLines = decl.body.split('\n')
+    const bodyLine = Math.min(Math.max(err.line - entry.bodyLine + 1, 1), bodyLines.length)
+    const list = byNode[decl.id] ?? []
+    list.push({
+      message: err.message,
+      bodyLine,
+      excerpt: bodyLines[bodyLine - 1]?.trim() ?? '',
+    })
+    byNode[decl.id] = list
+  }
+
+  return { byNode, unmapped }
+}
@@ -0,0 +1,196 @@
+import { type Scenario, type VisualDeclaration, paramDomain } from './spec'
+import { splitTopLevel } from './parser'
+import type { ItfTrace } from './itf'
+import { type ReplEntry, stateQuery } from './repl'
+
+/**
+ * Manual stepping through the state machine, driven by a REPL session. States
+ * are kept as variable values in Quint syntax, so any state can be restored
+ * with an `all { x' = ..., }` action before trying the next transition.
+ */
+
+/** Variable values in Quint syntax, by variable name */
+export type ExplorerState = Record<string, string>
+
+/** One state on the explored path and the call that reached it */
+export interface ExplorerStep {
+  /** Action fired to get here; `init` for the first state */
+  action: string
+  /** Arguments of the call, comma-separated */
+  args: string
+  state: ExplorerState
+  /** Invariants that are false in this state */
+  violated: string[]
+}
+
+/** A transition out of the current state with concrete arguments */
+export interface ExplorerChoice {
+  action: string
+  args: string
+  /** The state it leads to, or null when the action is disabled */
+  next: ExplorerStep | null
+  /** Set when Quint reported an error instead of true/false */
+  error?: string
+}
+
+/** Argument combinations tried per action; domains are often far larger */
+export const MAX_CHOICES_PER_ACTION = 12
+
+/** Sends one command to the explorer's REPL session */
+export type ReplSender = (input: string) => Promise<ReplEntry>
+
+/** Fields of a record value printed by the REPL, e.g. `{ x: 1, y: Set(2) }` */
+export function parseQuintRecord(text: string): Record<string, string> | null {
+  const t = text.trim()
+  if (!t.startsWith('{') || !t.endsWith('}')) return null
+  const fields: Record<string, string> = {}
+  for (const part of splitTopLevel(t.slice(1, -1))) {
+    if (!part.trim()) continue
+    const colon = part.indexOf(':')
+    if (colon === -1) return null
+    fields[part.slice(0, colon).trim()] = part.slice(colon + 1).replace(/\s*\n\s*/g, ' ').trim()
+  }
+  return fields
+}
+
+/** Elements of a set value printed by the REPL, e.g. `Set(1, 2, 3)` */
+export function parseQuintSet(text: string): string[] | null {
+  const m = text.trim().match(/^Set\(([\s\S]*)\)$/)
+  if (!m) return null
+  return splitTopLevel(m[1])
+    .map((v) => v.replace(/\s*\n\s*/g, ' ').trim())
+    .filter(Boolean)
+}
+
+/** An action that puts every variable back to its value in `state` */
+export function restoreState(state: ExplorerState): string {
+  return `all { ${Object.entries(state).map(([v, value]) => `${v}' = ${value}`).join(', ')} }`
+}
+
+export function callOf(action: string, args: string): string {
+  return args ? `${action}(${args})` : action
+}
+
+/** Every combination of one value per parameter, up to `max`, as argument lists */
+export function argumentChoices(values: string[][], max = MAX_CHOICES_PER_ACTION): string[] {
+  let combos: string[][] = [[]]
+  for (const options of values) {
+    combos = combos.flatMap((combo) => options.map((v) => [...combo, v])).slice(0, max)
+  }
+  return combos.map((c) => c.join(', '))
+}
+
+/**
+ * Actions the explorer offers: the concrete transitions, tried with every
+ * argument from their domains. A lone step action (like the template's
+ * `step`) only picks among them at random, so it is left out unless there is
+ * nothing else; several step actions are the branches of the generated `step`.
+ */
+export function transitionActions(decls: VisualDeclaration[]): VisualDeclaration[] {
+  const actions = decls.filter((d) => d.kind === 'action' && d.name && d.role !== 'init' && d.name !== 'init')
+  const steps = actions.filter((d) => d.role === 'step')
+  const concrete = actions.filter((d) => d.name !== 'step' && !(steps.length === 1 && d === steps[0]))
+  return concrete.length > 0 ? concrete : actions
+}
+
+/** The explored path as a trace, so the canvas shows it the same way as a replayed run */
+export function explorerTrace(path: ExplorerStep[]): ItfTrace {
+  const vars = path.length > 0 ? Object.keys(path[0].state) : []
+  return {
+    vars,
+    states: path.map((step, index) => ({
+      '#meta': { index },
+      'mbt::actionTaken': step.action,
+      ...Object.fromEntries(Object.entries(step.state).map(([v, value]) => [v, { '#unserializable': value }])),
+    })),
+  }
+}
+
+/** The explored path as a run scenario; init may pick differently when it is nondeterministic */
+export function explorerScenario(path: ExplorerStep[]): Scenario {
+  return {
+    init: path[0]?.action ?? 'init',
+    steps: path.slice(1).map((step) => ({ type: 'action', action: step.action, args: step.args })),
+  }
+}
+
+/** Output of a command, or an error with Quint's message when it failed */
+async function evaluate(repl: ReplSender, input: string): Promise<string> {
+  const reply = await repl(input)
+  if (!reply.ok) throw new Error(reply.output || `Failed to evaluate ${input}`)
+  return reply.output.trim()
+}
+
+/** Read the current state and the invariants that fail in it */
+async function observe(
+  repl: ReplSender,
+  action: string,
+  args: string,
+  vars: string[],
+  invariants: string[]
+): Promise<ExplorerStep> {
+  const state = parseQuintRecord(await evaluate(repl, stateQuery(vars)))
+  if (!state) throw new Error('Could not read the state variables')
+  let violated: string[] = []
+  if (invariants.length > 0) {
+    const values = parseQuintRecord(await evaluate(repl, stateQuery(invariants))) ?? {}
+    violated = invariants.filter((name) => values[name] === 'false')
+  }
+  return { action, args, state, violated }
+}
+
+/** Fire `init` and read the state it produced */
+export async function startExploration(
+  repl: ReplSender,
+  vars: string[],
+  invariants: string[],
+  init = 'init'
+): Promise<ExplorerStep> {
+  if ((await evaluate(repl, init)) !== 'true') throw new Error(`${init} is not enabled`)
+  return observe(repl, init, '', vars, invariants)
+}
+
+/**
+ * Try every action from `from`, with up to MAX_CHOICES_PER_ACTION argument
+ * combinations drawn from the parameter domains. Once `signal` is aborted the
+ * choices tried so far are returned.
+ */
+export async function exploreChoices(
+  repl: ReplSender,
+  from: ExplorerStep,
+  decls: VisualDeclaration[],
+  invariants: string[],
+  signal?: AbortSignal
+): Promise<ExplorerChoice[]> {
+  const vars = Object.keys(from.state)
+  const choices: ExplorerChoice[] = []
+  for (const action of transitionActions(decls)) {
+    const params = action.params.filter((p) => p.name.trim())
+    let argLists = ['']
+    if (params.length > 0) {
+      try {
+        const values = []
+        for (const p of params) {
+          const elements = parseQuintSet(await evaluate(repl, paramDomain(p, decls)))
+          if (!elements) throw new Error(`Could not list the values of ${p.name}`)
+          values.push(elements)
+        }
+        argLists = argumentChoices(values)
+      } catch (e) {
+        choices.push({ action: action.name, args: '', next: null, error: e instanceof Error ? e.message : String(e) })
+        continue
+      }
+    }
+    for (const args of argLists) {
+      if (signal?.aborted) return choices
+      try {
+        const fired = await evaluate(repl, `(${restoreState(from.state)}).then(${callOf(action.name, args)})`)
+        const next = fired === 'true' ? await observe(repl, action.name, args, vars, invariants) : null
+        choices.push({ action: action.name, args, next })
+      } catch (e) {
+        choices.push({ action: action.name, args, next: null, error: e instanceof Error ? e.message : String(e) })
+      }
+    }
+  }
+  return choices
+}
@@ -0,0 +1,99 @@
+/**
+ * Informal Trace Format (ITF), as written by `quint run --out-itf`.
+ * See https://apalache-mc.org/docs/adr/015adr-trace.html
+ */
+export type ItfValue =
+  | boolean
+  | string
+  | number
+  | ItfValue[]
+  | { '#bigint': string }
+  | { '#tup': ItfValue[] }
+  | { '#set': ItfValue[] }
+  | { '#map': [ItfValue, ItfValue][] }
+  | { '#unserializable': string }
+  | { [field: string]: ItfValue }
+
+export interface ItfState {
+  '#meta'?: { index?: number }
+  [variable: string]: ItfValue | { index?: number } | undefined
+}
+
+export interface ItfTrace {
+  '#meta'?: Record<string, unknown>
+  vars: string[]
+  states: ItfState[]
+}
+
+/** Variables added by `--mbt` that describe the step rather than the state */
+const MBT_ACTION = 'mbt::actionTaken'
+const MBT_PREFIX = 'mbt::'
+
+/** Name of the action that produced a state, when the run recorded it */
+export function actionTaken(state: ItfState): string | null {
+  const action = state[MBT_ACTION]
+  return typeof action === 'string' && action ? action : null
+}
+
+function isObject(v: ItfValue): v is { [key: string]: ItfValue } {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+/** Render an ITF value in Quint syntax */
+export function formatItfValue(v: ItfValue | undefined): string {
+  if (v === undefined) return ''
+  if (typeof v === 'string') return JSON.stringify(v)
+  if (typeof v === 'boolean' || typeof v === 'number') return String(v)
+  if (Array.isArray(v)) return `[${v.map(formatItfValue).join(', ')}]`
+
+  if ('#bigint' in v) return String(v['#bigint'])
+  if ('#tup' in v) return `(${(v['#tup'] as ItfValue[]).map(formatItfValue).join(', ')})`
+  if ('#set' in v) return `Set(${(v['#set'] as ItfValue[]).map(formatItfValue).join(', ')})`
+  if ('#map' in v) {
+    const entries = v['#map'] as [ItfValue, ItfValue][]
+    return `Map(${entries.map(([k, val]) => `${formatItfValue(k)} -> ${formatItfValue(val)}`).join(', ')})`
+  }
+  if ('#unserializable' in v) return String(v['#unserializable'])
+
+  // Sum type values are encoded as { tag, value }
+  const keys = Object.keys(v)
+  if (keys.length === 2 && typeof v.tag === 'string' && 'value' in v) {
+    const payload = v.value
+    const isUnit = isObject(payload) && '#tup' in payload && (payload['#tup'] as ItfValue[]).length === 0
+    return isUnit ? v.tag : `${v.tag}(${formatItfValue(payload)})`
+  }
+  return `{ ${keys.map((k) => `${k}: ${formatItfValue(v[k])}`).join(', ')} }`
+}
+
+export interface TraceRow {
+  index: number
+  /** Action that led to this state, when the run recorded it */
+  action: string | null
+  values: Record<string, string>
+  /** Variables whose value differs from the previous state */
+  changed: Set<string>
+}
+
+/** Turn an ITF trace into one row per state and one column per state variable */
+export function traceToTable(trace: ItfTrace): { vars: string[]; rows: TraceRow[] } {
+  const vars = trace.vars.filter((v) => !v.startsWith(MBT_PREFIX))
+  const rows: TraceRow[] = []
+
+  trace.states.forEach((state, i) => {
+    const values: Record<string, string> = {}
+    const changed = new Set<string>()
+    const prev = rows[i - 1]
+    for (const name of vars) {
+      values[name] = formatItfValue(state[name] as ItfValue | undefined)
+      if (prev && prev.values[name] !== values[name]) changed.add(name)
+    }
+    rows.push({
+      index: state['#meta']?.index ?? i,
+      action: actionTaken(state),
+      values,
+      changed,
+    })
+  })
+
+  return { vars, rows }
+}
@@ -0,0 +1,427 @@
+import {
+  type DeclKind,
+  type ModuleImport,
+  type Param,
+  type Scenario,
+  type ScenarioStep,
+  type TypeDef,
+  type VisualDeclaration,
+  createDeclaration,
+  inferRole,
+} from './spec'
+
+/** Raised when a .qnt source cannot be turned into declarations */
+export class QuintParseError extends Error {
+  line: number
+
+  constructor(message: string, line: number) {
+    super(line > 0 ? `Line ${line}: ${message}` : message)
+    this.name = 'QuintParseError'
+    this.line = line
+  }
+}
+
+export interface ParsedModule {
+  name: string
+  decls: VisualDeclaration[]
+  imports: ModuleImport[]
+}
+
+const DECL_KEYWORDS = ['var', 'const', 'val', 'def', 'action', 'type', 'temporal', 'assume', 'run', 'import', 'export']
+
+const OPENERS: Record<string, string> = { '{': '}', '(': ')', '[': ']' }
+const CLOSERS = new Set(['}', ')', ']'])
+
+/** Blank out comments, keeping line breaks so line numbers stay stable */
+function stripComments(src: string): string {
+  let out = ''
+  let i = 0
+  while (i < src.length) {
+    const c = src[i]
+    if (c === '"') {
+      const end = skipString(src, i)
+      out += src.slice(i, end)
+      i = end
+    } else if (c === '/' && src[i + 1] === '/') {
+      while (i < src.length && src[i] !== '\n') {
+        out += ' '
+        i++
+      }
+    } else if (c === '/' && src[i + 1] === '*') {
+      const end = src.indexOf('*/', i + 2)
+      const stop = end === -1 ? src.length : end + 2
+      out += src.slice(i, stop).replace(/[^\n]/g, ' ')
+      i = stop
+    } else {
+      out += c
+      i++
+    }
+  }
+  return out
+}
+
+/** Index just past the string literal starting at `start` */
+function skipString(src: string, start: number): number {
+  let i = start + 1
+  while (i < src.length && src[i] !== '"') {
+    if (src[i] === '\\') i++
+    i++
+  }
+  return i + 1
+}
+
+/** Index of the bracket closing the one at `open`, or -1 */
+function findClosing(src: string, open: number): number {
+  const stack: string[] = []
+  for (let i = open; i < src.length; i++) {
+    const c = src[i]
+    if (c === '"') {
+      i = skipString(src, i) - 1
+    } else if (OPENERS[c]) {
+      stack.push(OPENERS[c])
+    } else if (CLOSERS.has(c)) {
+      if (stack.pop() !== c) return -1
+      if (stack.length === 0) return i
+    }
+  }
+  return -1
+}
+
+/** Index of the first top-level definition `=` (not `==`, `=>`, `<=`...) */
+function findDefinitionEquals(src: string, from: number): number {
+  let depth = 0
+  for (let i = from; i < src.length; i++) {
+    const c = src[i]
+    if (c === '"') {
+      i = skipString(src, i) - 1
+    } else if (OPENERS[c]) {
+      depth++
+    } else if (CLOSERS.has(c)) {
+      depth--
+    } else if (c === '=' && depth === 0) {
+      const prev = src[i - 1]
+      const next = src[i + 1]
+      if (next !== '=' && next !== '>' && !'=<>!'.includes(prev)) return i
+    }
+  }
+  return -1
+}
+
+function lineAt(src: string, index: number): number {
+  return src.slice(0, index).split('\n').length
+}
+
+function indentOf(line: string): number {
+  return line.match(/^ */)![0].length
+}
+
+/** Remove the common indentation of every line after the first */
+function dedentTail(text: string): string {
+  const lines = text.split('\n')
+  const tail = lines.slice(1).filter((l) => l.trim())
+  if (tail.length === 0) return text
+  const min = Math.min(...tail.map(indentOf))
+  return [lines[0], ...lines.slice(1).map((l) => l.slice(Math.min(min, indentOf(l))))].join('\n')
+}
+
+/** Remove the common indentation of every line */
+function dedentAll(text: string): string {
+  const lines = text.split('\n')
+  const filled = lines.filter((l) => l.trim())
+  if (filled.length === 0) return ''
+  const min = Math.min(...filled.map(indentOf))
+  return lines.map((l) => l.slice(Math.min(min, indentOf(l)))).join('\n')
+}
+
+/** Split text at commas that are not nested inside brackets */
+export function splitTopLevel(text: string, sep = ','): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+    if (c === '"') {
+      i = skipString(text, i) - 1
+    } else if (OPENERS[c]) {
+      depth++
+    } else if (CLOSERS.has(c)) {
+      depth--
+    } else if (c === sep && depth === 0) {
+      parts.push(text.slice(start, i))
+      start = i + 1
+    }
+  }
+  parts.push(text.slice(start))
+  return parts
+}
+
+/** Split a parameter list like `a: int, b: (int, str), c` into entries */
+export function parseParams(text: string): Param[] {
+  return splitTopLevel(text)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const colon = part.indexOf(':')
+      return colon === -1
+        ? { name: part, type: '' }
+        : { name: part.slice(0, colon).trim(), type: part.slice(colon + 1).replace(/\s+/g, ' ').trim() }
+    })
+}
+
+/**
+ * Undo the wrapping `declToQuint` adds, so that parsing generated code
+ * yields the same body the node had.
+ */
+function normalizeBody(kind: DeclKind, raw: string): string {
+  const body = dedentTail(raw.trim())
+  if (kind !== 'def' && kind !== 'action') return body
+
+  // Multi-line bodies are emitted as `= {\n ...\n }`
+  if (body.startsWith('{') && findClosing(body, 0) === body.length - 1) {
+    const inner = body.slice(1, -1).replace(/^\s*\n/, '').trimEnd()
+    if (inner.includes('\n')) return dedentAll(inner)
+  }
+
+  // Plain action clauses are emitted as `= all {\n a,\n b,\n }`
+  if (kind === 'action' && /^all\s*\{/.test(body)) {
+    const open = body.indexOf('{')
+    if (findClosing(body, open) === body.length - 1) {
+      const inner = body.slice(open + 1, -1)
+      const clauses = splitTopLevel(inner).map((c) => c.trim()).filter(Boolean)
+      const simple = clauses.every((c) => !c.includes('\n') && !/^(nondet|val)\s/.test(c))
+      if (inner.includes('\n') && clauses.length > 0 && simple) return clauses.join('\n')
+    }
+  }
+
+  return body
+}
+
+/** Read `action`, `action(args)` or `n.reps(_ => action(args))` from inside `.then(...)` */
+function parseScenarioCall(text: string): ScenarioStep | null {
+  const reps = text.match(/^(\d+)\s*\.\s*reps\s*\(\s*\w+\s*=>\s*([\s\S]*)\)$/)
+  const call = (reps ? reps[2] : text).trim()
+  const name = call.match(/^\w+/)
+  if (!name) return null
+
+  let args = ''
+  const rest = call.slice(name[0].length).trim()
+  if (rest) {
+    const open = call.indexOf('(', name[0].length)
+    if (!rest.startsWith('(') || findClosing(call, open) !== call.length - 1) return null
+    args = call.slice(open + 1, -1).replace(/\s+/g, ' ').trim()
+  }
+  return { type: 'action', action: name[0], args, ...(reps ? { reps: Number(reps[1]) } : {}) }
+}
+
+/** Read a run body written as `init.then(a).expect(c)...` into a scenario, or null */
+export function parseScenario(body: string): Scenario | null {
+  const src = body.trim()
+  const head = src.match(/^\w+/)
+  if (!head) return null
+
+  const scenario: Scenario = { init: head[0], steps: [] }
+  let pos = head[0].length
+  while (pos < src.length) {
+    const link = src.slice(pos).match(/^\s*\.\s*(then|expect)\s*\(/)
+    if (!link) return null
+    const open = pos + link[0].length - 1
+    const close = findClosing(src, open)
+    if (close === -1) return null
+    const inner = src.slice(open + 1, close).trim()
+    if (link[1] === 'expect') {
+      scenario.steps.push({ type: 'expect', condition: inner.replace(/\s+/g, ' ') })
+    } else {
+      const step = parseScenarioCall(inner)
+      if (!step) return null
+      scenario.steps.push(step)
+    }
+    pos = close + 1
+  }
+  return scenario
+}
+
+/**
+ * Read a type body as a sum (`A | B(int)`) or record (`{ a: int }`) type, or
+ * null when it is anything else (an alias, a map type, ...).
+ */
+export function parseTypeDef(body: string): TypeDef | null {
+  const src = body.trim()
+  if (src.startsWith('{') && findClosing(src, 0) === src.length - 1) {
+    const fields = []
+    for (const part of splitTopLevel(src.slice(1, -1))) {
+      if (!part.trim()) continue
+      const m = part.trim().match(/^(\w+)\s*:\s*([\s\S]+)$/)
+      if (!m) return null
+      fields.push({ name: m[1], type: m[2].replace(/\s+/g, ' ') })
+    }
+    return { kind: 'record', fields }
+  }
+
+  const parts = splitTopLevel(src.replace(/^\|/, ''), '|').map((p) => p.trim())
+  // A lone `Name` is an alias; a sum needs `|` or a constructor with a payload
+  if (parts.length === 1 && !parts[0].includes('(')) return null
+  const variants = []
+  for (const part of parts) {
+    const m = part.match(/^([A-Za-z_]\w*)\s*(?:\(([\s\S]*)\))?$/)
+    if (!m) return null
+    variants.push({ name: m[1], payload: (m[2] ?? '').replace(/\s+/g, ' ').trim() })
+  }
+  return { kind: 'sum', variants }
+}
+
+/** Pick the state machine role a declaration of this kind can carry */
+function roleFor(kind: DeclKind, name: string): VisualDeclaration['role'] {
+  const role = inferRole(name)
+  if (kind === 'action' && (role === 'init' || role === 'step')) return role
+  if ((kind === 'val' || kind === 'def') && role === 'invariant') return role
+  return undefined
+}
+
+function parseImport(chunk: string, line: number): ModuleImport {
+  const m = chunk.match(/^(import|export)\s+(\w+)(?:\.(\*|\w+))?(?:\s+as\s+(\w+))?(?:\s+from\s+"[^"]*")?$/)
+  if (!m) throw new QuintParseError(`Unsupported ${chunk.split(/\s/)[0]}: ${chunk.split('\n')[0]}`, line)
+  return { keyword: m[1] as ModuleImport['keyword'], module: m[2], name: m[3] ?? '', ...(m[4] ? { alias: m[4] } : {}) }
+}
+
+function parseDeclaration(
+  chunk: string,
+  line: number,
+  idGen: () => string
+): VisualDeclaration {
+  const head = chunk.match(/^(pure\s+)?(\w+)\s+/)
+  if (!head) throw new QuintParseError(`Unexpected input: ${chunk.split('\n')[0]}`, line)
+  const pure = !!head[1]
+  const keyword = head[2]
+  const rest = chunk.slice(head[0].length)
+
+  if (keyword === 'var' || keyword === 'const') {
+    const m = rest.match(/^(\w+)\s*:\s*([\s\S]+)$/)
+    if (!m) throw new QuintParseError(`Expected "${keyword} name: type"`, line)
+    return createDeclaration(idGen(), keyword, { name: m[1], type: m[2].trim() })
+  }
+
+  if (keyword === 'type') {
+    const m = rest.match(/^(\w+(?:\[[^\]]*\])?)\s*(?:=\s*([\s\S]*))?$/)
+    if (!m) throw new QuintParseError('Expected "type Name = ..."', line)
+    const body = dedentTail((m[2] ?? '').trim())
+    const typeDef = parseTypeDef(body)
+    return createDeclaration(idGen(), 'type', { name: m[1], body, ...(typeDef ? { typeDef } : {}) })
+  }
+
+  if (!['val', 'def', 'action', 'temporal', 'assume', 'run'].includes(keyword)) {
+    throw new QuintParseError(`Unsupported declaration "${keyword}"`, line)
+  }
+  const kind = keyword as DeclKind
+
+  const nameMatch = rest.match(/^(\w+)\s*/)
+  if (!nameMatch) throw new QuintParseError(`Expected a name after "${keyword}"`, line)
+  const name = nameMatch[1]
+  let pos = nameMatch[0].length
+
+  let params: Param[] = []
+  if (rest[pos] === '(') {
+    const close = findClosing(rest, pos)
+    if (close === -1) throw new QuintParseError(`Unclosed parameter list in "${name}"`, line)
+    params = parseParams(rest.slice(pos + 1, close))
+    pos = close + 1
+  }
+
+  const eq = findDefinitionEquals(rest, pos)
+  if (eq === -1) throw new QuintParseError(`Expected "=" in definition of "${name}"`, line)
+
+  const signature = rest.slice(pos, eq).trim()
+  const type = signature.startsWith(':') ? signature.slice(1).trim() : ''
+
+  const body = normalizeBody(kind, rest.slice(eq + 1))
+  const scenario = kind === 'run' ? parseScenario(body) : null
+  return createDeclaration(idGen(), kind, {
+    name,
+    type,
+    params,
+    body,
+    role: roleFor(kind, name),
+    ...(pure ? { pure: true } : {}),
+    ...(scenario ? { scenario } : {}),
+  })
+}
+
+/** Parse the body of the module whose opening brace is at `open` */
+function parseModuleBody(
+  src: string,
+  name: string,
+  open: number,
+  close: number,
+  idGen: () => string
+): ParsedModule {
+  const body = src.slice(open + 1, close)
+  const bodyLine = lineAt(src, open)
+  const keywordRe = new RegExp(`^( *)(pure\\s+)?(${DECL_KEYWORDS.join('|')})\\b`)
+
+  // Declarations start at the beginning of a line, at bracket depth 0, and
+  // no deeper indented than the first one (so `val` bindings inside an
+  // unbraced def body are not mistaken for new declarations).
+  const starts: { index: number; line: number }[] = []
+  let baseIndent = -1
+  let depth = 0
+  let lineStart = 0
+  for (let i = 0; i <= body.length; i++) {
+    if (i === lineStart && depth === 0) {
+      const m = body.slice(i, body.indexOf('\n', i) === -1 ? undefined : body.indexOf('\n', i)).match(keywordRe)
+      if (m && (baseIndent === -1 || m[1].length <= baseIndent)) {
+        if (baseIndent === -1) baseIndent = m[1].length
+        starts.push({ index: i + m[1].length, line: bodyLine + lineAt(body, i) - 1 })
+      }
+    }
+    const c = body[i]
+    if (c === '"') {
+      i = skipString(body, i) - 1
+    } else if (OPENERS[c]) {
+      depth++
+    } else if (CLOSERS.has(c)) {
+      depth--
+    } else if (c === '\n') {
+      lineStart = i + 1
+    }
+  }
+
+  const leading = body.slice(0, starts[0]?.index ?? body.length).trim()
+  if (leading) {
+    throw new QuintParseError(`Unexpected input: ${leading.split('\n')[0]}`, bodyLine + 1)
+  }
+
+  const decls: VisualDeclaration[] = []
+  const imports: ModuleImport[] = []
+  starts.forEach((s, i) => {
+    const chunk = body.slice(s.index, starts[i + 1]?.index ?? body.length).trim()
+    if (/^(import|export)\b/.test(chunk)) imports.push(parseImport(chunk, s.line))
+    else decls.push(parseDeclaration(chunk, s.line, idGen))
+  })
+
+  return { name, decls, imports }
+}
+
+/** Parse every top-level `module Name { ... }` in a .qnt source */
+export function parseQuintModules(source: string, idGen: () => string): ParsedModule[] {
+  const src = stripComments(source.replace(/\r\n?/g, '\n').replace(/\t/g, '  '))
+  const headerRe = /\bmodule\s+(\w+)\s*\{/g
+  const modules: ParsedModule[] = []
+
+  let header: RegExpExecArray | null
+  while ((header = headerRe.exec(src)) !== null) {
+    const open = header.index + header[0].length - 1
+    const close = findClosing(src, open)
+    if (close === -1) throw new QuintParseError('Unclosed module body', lineAt(src, open))
+    modules.push(parseModuleBody(src, header[1], open, close, idGen))
+    headerRe.lastIndex = close + 1
+  }
+
+  if (modules.length === 0) {
+    throw new QuintParseError('No "module Name { ... }" declaration found', 0)
+  }
+  return modules
+}
+
+/** Parse the first `module Name { ... }` in a .qnt source into declarations */
+export function parseQuintModule(source: string, idGen: () => string): ParsedModule {
+  return parseQuintModules(source, idGen)[0]
+}
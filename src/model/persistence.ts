@@ -0,0 +1,60 @@
+import { createJSONStorage, type StateStorage } from 'zustand/middleware'
+
+/**
+ * localStorage access for the persisted store. When the saved whiteboard
+ * can't be loaded as is, writes are held back so the original data stays in
+ * place until the user has had a chance to download it.
+ */
+
+/** A saved whiteboard that could not be loaded as is */
+export interface LoadIssue {
+  /** Why loading failed; the app starts from an empty whiteboard */
+  error?: string
+  /** What was dropped or fixed to load the rest */
+  repairs: string[]
+  /** The saved JSON exactly as found */
+  raw: string
+}
+
+/** Thrown while migrating or checking saved state that can't be used */
+export class SavedStateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SavedStateError'
+  }
+}
+
+let lastRaw: string | null = null
+let issue: LoadIssue | null = null
+
+const heldStorage: StateStorage = {
+  getItem: (name) => (lastRaw = localStorage.getItem(name)),
+  setItem: (name, value) => {
+    if (!issue) localStorage.setItem(name, value)
+  },
+  removeItem: (name) => localStorage.removeItem(name),
+}
+
+export const persistStorage = createJSONStorage(() => heldStorage)
+
+export function reportLoadFailure(error: unknown) {
+  issue = {
+    error: error instanceof SavedStateError ? error.message : `The saved whiteboard could not be read: ${error}`,
+    repairs: [],
+    raw: lastRaw ?? '',
+  }
+}
+
+export function reportRepairs(repairs: string[]) {
+  if (repairs.length > 0) issue = { repairs, raw: lastRaw ?? '' }
+}
+
+/** The problem found while loading, if any (loading is synchronous, so this is final once the store exists) */
+export function getLoadIssue(): LoadIssue | null {
+  return issue
+}
+
+/** Let writes through again; the next one replaces the saved data */
+export function resolveLoadIssue() {
+  issue = null
+}
@@ -0,0 +1,137 @@
+import type { Edge, Node } from '@xyflow/react'
+import type { ModuleImport } from './spec'
+import type { RunConfig } from './runConfigs'
+import {
+  type AnyNodeData,
+  type Project,
+  type ProjectData,
+  type WorkspaceModule,
+  emptyProjectData,
+  repairCanvas,
+  repairImports,
+  repairModules,
+  repairRunConfigs,
+} from './store'
+
+/** Identifies a project file, whatever it is named */
+export const PROJECT_FILE_FORMAT = 'quint-whiteboard-project'
+/** Bumped whenever the file layout changes, so newer files are refused instead of misread */
+export const PROJECT_FILE_VERSION = 1
+
+/**
+ * A project as a JSON file, for sharing a whiteboard outside the browser.
+ * Node positions carry the layout; the run history stays local.
+ */
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT
+  version: number
+  name: string
+  /** ISO timestamp */
+  exportedAt: string
+  moduleName: string
+  nodes: Node<AnyNodeData>[]
+  edges: Edge[]
+  imports: ModuleImport[]
+  /** Every workspace module, including the active one */
+  modules: WorkspaceModule[]
+  activeModuleId: string
+  runConfigs: RunConfig[]
+  activeRunConfigId: string
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProjectFileError'
+  }
+}
+
+export function toProjectFile(project: Project): ProjectFile {
+  const { data } = project
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    name: project.name,
+    exportedAt: new Date().toISOString(),
+    moduleName: data.moduleName,
+    nodes: data.nodes,
+    edges: data.edges,
+    imports: data.imports,
+    modules: data.modules,
+    activeModuleId: data.activeModuleId,
+    runConfigs: data.runConfigs,
+    activeRunConfigId: data.activeRunConfigId,
+  }
+}
+
+/** File name for an exported project, e.g. `My Spec.quint-project.json` */
+export function projectFileName(name: string): string {
+  return `${name.replace(/[\\/:*?"<>|]/g, '_') || 'project'}.quint-project.json`
+}
+
+/**
+ * Read a project file, repairing its canvases and run configurations the same
+ * way as saved state (throws ProjectFileError when it can't be loaded at all)
+ */
+export function parseProjectFile(text: string): { name: string; data: ProjectData; repairs: string[] } {
+  let file: Partial<ProjectFile>
+  try {
+    file = JSON.parse(text)
+  } catch {
+    throw new ProjectFileError('Not a JSON file')
+  }
+  if (!file || typeof file !== 'object' || file.format !== PROJECT_FILE_FORMAT) {
+    throw new ProjectFileError('Not a Quint Whiteboard project file')
+  }
+  if (typeof file.version !== 'number' || file.version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(`Project file version ${file.version} is newer than this app supports`)
+  }
+  if (!Array.isArray(file.nodes) || !Array.isArray(file.edges) || typeof file.moduleName !== 'string') {
+    throw new ProjectFileError('The project file has no canvas (nodes, edges and module name)')
+  }
+
+  const repairs: string[] = []
+  const where = `Module "${file.moduleName}"`
+  let modules: WorkspaceModule[]
+  try {
+    modules = Array.isArray(file.modules) && file.modules.length > 0
+      ? repairModules(file.modules, 'Workspace', repairs)
+      : [{
+          id: 'main',
+          name: file.moduleName,
+          ...repairCanvas(file.nodes, file.edges, where, repairs),
+          imports: repairImports(Array.isArray(file.imports) ? file.imports : [], where, repairs),
+        }]
+  } catch (e) {
+    throw new ProjectFileError(e instanceof Error ? e.message : String(e))
+  }
+  // The tab that opens and the canvas shown must be the same module
+  const active = modules.find((m) => m.id === file.activeModuleId) ?? modules[0]
+  if (file.activeModuleId !== undefined && active.id !== file.activeModuleId) {
+    repairs.push(`Workspace: the active module is missing, opening "${active.name}" instead`)
+  }
+  const configs = repairRunConfigs(Array.isArray(file.runConfigs) ? file.runConfigs : [], 'Run configurations', repairs)
+  const runConfigs = configs.length > 0 ? configs : undefined
+
+  return {
+    name: typeof file.name === 'string' && file.name.trim() ? file.name : 'Imported project',
+    data: {
+      ...emptyProjectData(),
+      nodes: active.nodes,
+      edges: active.edges,
+      moduleName: active.name,
+      imports: active.imports,
+      modules,
+      activeModuleId: active.id,
+      ...(runConfigs
+        ? {
+            runConfigs,
+            activeRunConfigId: runConfigs.some((c) => c.id === file.activeRunConfigId)
+              ? file.activeRunConfigId!
+              : runConfigs[0].id,
+          }
+        : {}),
+    },
+    repairs,
+  }
+}
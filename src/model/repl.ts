@@ -0,0 +1,54 @@
+import { nanoid } from 'nanoid'
+import { quintApi } from './api'
+
+/** One command sent to the REPL and what came back */
+export interface ReplEntry {
+  id: string
+  input: string
+  output: string
+  ok: boolean
+  /** The session started over for this command, e.g. because the module changed */
+  restarted?: boolean
+}
+
+/** Identifies this browser tab's REPL process on the server */
+export const REPL_SESSION = nanoid(12)
+
+/** A second session for the state explorer, so it doesn't disturb the REPL tab */
+export const EXPLORER_SESSION = `${REPL_SESSION}-explore`
+
+export interface ReplSource {
+  code: string
+  module: string
+  modules: { name: string; code: string }[]
+}
+
+/**
+ * Send one command to this tab's REPL session. The server starts the session
+ * on first use and restarts it whenever `source` differs from what it loaded.
+ */
+export async function replCommand(source: ReplSource, input: string, session = REPL_SESSION): Promise<ReplEntry> {
+  const result = (await quintApi('repl', { ...source, session, input })) as {
+    ok?: boolean
+    output?: string
+    restarted?: boolean
+    error?: string
+  }
+  return {
+    id: nanoid(8),
+    input,
+    output: result.output ?? result.error ?? '',
+    ok: result.ok ?? false,
+    restarted: result.restarted,
+  }
+}
+
+/** Stop one of this tab's sessions, dropping its definitions and state */
+export async function closeRepl(session = REPL_SESSION): Promise<void> {
+  await quintApi('repl/close', { session })
+}
+
+/** A REPL expression that shows the values of several names at once, as a record */
+export function stateQuery(names: string[]): string {
+  return `{ ${names.map((v) => `${v}: ${v}`).join(', ')} }`
+}
@@ -0,0 +1,89 @@
+import type { VisualDeclaration } from './spec'
+
+/** Simulator backends accepted by `quint run --backend` */
+export type QuintBackend = 'typescript' | 'rust'
+
+/** A saved set of `quint run` options, selectable from the Run tab */
+export interface RunConfig {
+  id: string
+  name: string
+  init: string
+  step: string
+  /** Invariants to check; undefined checks every declaration with the invariant role */
+  invariants?: string[]
+  maxSteps: number
+  maxSamples: number
+  /** Fixed seed for a reproducible run, or empty for a random one */
+  seed: string
+  backend: QuintBackend
+  nTraces: number
+}
+
+export const DEFAULT_RUN_CONFIG: RunConfig = {
+  id: 'default',
+  name: 'Default',
+  init: 'init',
+  step: 'step',
+  maxSteps: 20,
+  maxSamples: 100,
+  seed: '',
+  backend: 'typescript',
+  nTraces: 1,
+}
+
+/** Names of the declarations with the invariant role */
+export function invariantNames(decls: VisualDeclaration[]): string[] {
+  return decls.filter((d) => d.role === 'invariant' && d.name).map((d) => d.name)
+}
+
+/** The invariants a configuration checks, dropping selections that no longer exist */
+export function checkedInvariants(config: RunConfig, decls: VisualDeclaration[]): string[] {
+  const all = invariantNames(decls)
+  return config.invariants ? config.invariants.filter((name) => all.includes(name)) : all
+}
+
+/** Request body options for `/api/quint/run` */
+export interface RunOptions {
+  init: string
+  step: string
+  invariant: string
+  maxSteps: number
+  maxSamples: number
+  /** Omitted to let the server pick one (and report it back) */
+  seed?: string
+  backend: QuintBackend
+  nTraces: number
+}
+
+/** What a finished run used, enough to repeat it exactly */
+export interface RunRecord {
+  /** Name of the configuration it ran with */
+  config: string
+  /** Options including the seed the run actually used */
+  options: RunOptions
+}
+
+/** One entry of the run history, newest first in the store */
+export interface RunHistoryEntry extends RunRecord {
+  id: string
+  /** When the run finished, in ms since the epoch */
+  at: number
+  ok: boolean
+  /** Short outcome, e.g. "Passed" or "Violated" */
+  summary: string
+}
+
+/** Options to run a configuration against the current declarations */
+export function runOptions(config: RunConfig, decls: VisualDeclaration[]): RunOptions {
+  const invariants = checkedInvariants(config, decls)
+  return {
+    init: config.init || 'init',
+    step: config.step || 'step',
+    invariant: invariants.length > 0 ? invariants.join(' and ') : 'true',
+    maxSteps: config.maxSteps,
+    maxSamples: config.maxSamples,
+    ...(config.seed.trim() ? { seed: config.seed.trim() } : {}),
+    backend: config.backend,
+    nTraces: config.nTraces,
+  }
+}
@@ -0,0 +1,103 @@
+import type { Edge, Node } from '@xyflow/react'
+import { type AnyNodeData, repairCanvas } from './store'
+
+/**
+ * Share links carry one canvas in the URL fragment, deflated and base64url
+ * encoded, so no server is involved and the fragment never leaves the browser.
+ */
+
+/** Fragment of a share link: `#share=<encoded canvas>` */
+const SHARE_PREFIX = '#share='
+/** Bumped whenever the encoded layout changes, so newer links are refused instead of misread */
+const SHARE_VERSION = 1
+
+/** What a share link carries */
+export interface SharedCanvas {
+  moduleName: string
+  nodes: Node<AnyNodeData>[]
+  edges: Edge[]
+}
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ShareLinkError'
+  }
+}
+
+async function deflate(text: string): Promise<Uint8Array> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+async function inflate(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Response(stream).text()
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const b of bytes) binary += String.fromCharCode(b)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0))
+}
+
+/** A link to this page that opens `canvas` */
+export async function shareLink(canvas: SharedCanvas): Promise<string> {
+  // Selection and measurements only describe this browser's view
+  const nodes = canvas.nodes.map((n) => {
+    const copy = { ...n }
+    delete copy.selected
+    delete copy.dragging
+    delete copy.measured
+    return copy
+  })
+  const edges = canvas.edges.map((e) => {
+    const copy = { ...e }
+    delete copy.selected
+    return copy
+  })
+  const payload = JSON.stringify({ v: SHARE_VERSION, moduleName: canvas.moduleName, nodes, edges })
+  const url = new URL(window.location.href)
+  url.hash = SHARE_PREFIX + toBase64Url(await deflate(payload))
+  return url.toString()
+}
+
+export function isShareLink(hash: string): boolean {
+  return hash.startsWith(SHARE_PREFIX)
+}
+
+/**
+ * Decode the canvas in a share link's fragment. Links come from anywhere, so
+ * one that needs any repair to load is refused (throws ShareLinkError).
+ */
+export async function readShareLink(hash: string): Promise<SharedCanvas> {
+  let payload: Partial<SharedCanvas> & { v?: unknown }
+  try {
+    payload = JSON.parse(await inflate(fromBase64Url(hash.slice(SHARE_PREFIX.length))))
+  } catch {
+    throw new ShareLinkError('The link is incomplete or damaged; it may have been cut off when it was pasted')
+  }
+  if (typeof payload !== 'object' || payload === null) {
+    throw new ShareLinkError('The link has no canvas (nodes, edges and module name)')
+  }
+  if (typeof payload.v !== 'number' || payload.v > SHARE_VERSION) {
+    throw new ShareLinkError('The link was made by a newer version of the app')
+  }
+  if (!Array.isArray(payload.nodes) || !Array.isArray(payload.edges) || typeof payload.moduleName !== 'string') {
+    throw new ShareLinkError('The link has no canvas (nodes, edges and module name)')
+  }
+  if (!/^[A-Za-z_]\w*$/.test(payload.moduleName)) {
+    throw new ShareLinkError(`The link's module name "${payload.moduleName}" is not a valid identifier`)
+  }
+  const repairs: string[] = []
+  const { nodes, edges } = repairCanvas(payload.nodes, payload.edges, `Module "${payload.moduleName}"`, repairs)
+  if (repairs.length > 0) {
+    throw new ShareLinkError(`The link's canvas is not valid:\n${repairs.join('\n')}`)
+  }
+  return { moduleName: payload.moduleName, nodes, edges }
+}
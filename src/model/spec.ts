@@ -1,18 +1,64 @@
-export type DeclKind = 'var' | 'const' | 'val' | 'def' | 'action' | 'type' | 'assume'
+export type DeclKind = 'var' | 'const' | 'val' | 'def' | 'action' | 'type' | 'temporal' | 'assume' | 'run'
 
 export interface VisualDeclaration {
   id: string
   kind: DeclKind
   name: string
   type: string
-  params: string
+  params: Param[]
   body: string
   /** Marks special state machine roles */
   role?: 'init' | 'step' | 'invariant'
   /** Whether this is a pure val/def (no state dependency) */
   pure?: boolean
+  /** Structured form of a run body, edited in the scenario builder */
+  scenario?: Scenario
+  /** Structured form of a type body (sum or record), edited in the type editor */
+  typeDef?: TypeDef
 }
 
+/** One parameter of a def or action; an empty type is left to inference */
+export interface Param {
+  name: string
+  type: string
+  /** Values the generated `step` picks this action parameter from */
+  domain?: ParamDomain
+}
+
+/** A nondet domain: `from.to(to)`, `Set(values)` or an existing const/val */
+export type ParamDomain =
+  | { kind: 'range'; from: string; to: string }
+  | { kind: 'set'; values: string }
+  | { kind: 'ref'; name: string }
+
+/** One link of a run scenario after the initial action */
+export type ScenarioStep =
+  | { type: 'action'; action: string; args: string; reps?: number }
+  | { type: 'expect'; condition: string }
+
+/** A run built as a chain: an init action, then action calls and checks */
+export interface Scenario {
+  init: string
+  steps: ScenarioStep[]
+}
+
+/** One constructor of a sum type, with an optional payload type */
+export interface TypeVariant {
+  name: string
+  payload: string
+}
+
+/** One field of a record type */
+export interface TypeField {
+  name: string
+  type: string
+}
+
+/** A type body built row by row: `A | B(int)` or `{ a: int, b: str }` */
+export type TypeDef =
+  | { kind: 'sum'; variants: TypeVariant[] }
+  | { kind: 'record'; fields: TypeField[] }
+
 /** Node data stored on each React Flow node */
 export type DeclNodeData = VisualDeclaration & { [key: string]: unknown }
 
@@ -24,6 +70,16 @@ export interface RoleGroupData {
   [key: string]: unknown
 }
 
+/** An `import` or `export` of another module in the workspace */
+export interface ModuleImport {
+  keyword: 'import' | 'export'
+  module: string
+  /** `*`, a single declaration name, or empty for a qualified import */
+  name: string
+  /** `import M as L`: qualified references use `L::x` instead of `M::x` */
+  alias?: string
+}
+
 export function createDeclaration(
   id: string,
   kind: DeclKind,
@@ -34,12 +90,17 @@ export function createDeclaration(
     kind,
     name: '',
     type: '',
-    params: '',
+    params: [],
     body: '',
     ...overrides,
   }
 }
 
+const BANK_PARAMS: Param[] = [
+  { name: 'account', type: '', domain: { kind: 'ref', name: 'ADDRESSES' } },
+  { name: 'amount', type: '', domain: { kind: 'range', from: '1', to: '100' } },
+]
+
 /** Create a state machine scaffold matching the Quint bank example */
 export function createStateMachineDecls(idGen: () => string): VisualDeclaration[] {
   return [
@@ -56,12 +117,12 @@ export function createStateMachineDecls(idGen: () => string): VisualDeclaration[
     }),
     createDeclaration(idGen(), 'action', {
       name: 'deposit',
-      params: 'account, amount',
+      params: BANK_PARAMS,
       body: "balances' = balances.setBy(account, curr => curr + amount)",
     }),
     createDeclaration(idGen(), 'action', {
       name: 'withdraw',
-      params: 'account, amount',
+      params: BANK_PARAMS,
       body: "balances' = balances.setBy(account, curr => curr - amount)",
     }),
     createDeclaration(idGen(), 'action', {
@@ -77,6 +138,41 @@ export function createStateMachineDecls(idGen: () => string): VisualDeclaration[
   ]
 }
 
+/** Render a parameter list as written between the parentheses: `a: int, b` */
+export function paramsToQuint(params: Param[]): string {
+  return params
+    .filter((p) => p.name.trim())
+    .map((p) => (p.type.trim() ? `${p.name.trim()}: ${p.type.trim()}` : p.name.trim()))
+    .join(', ')
+}
+
+/** Render a scenario as an `init.then(...)` chain, one link per line when there are several */
+export function scenarioToQuint(scenario: Scenario): string {
+  const links = scenario.steps.map((step) => {
+    if (step.type === 'expect') return `.expect(${step.condition.trim() || 'true'})`
+    const action = step.action || 'step'
+    const call = step.args.trim() ? `${action}(${step.args.trim()})` : action
+    return step.reps && step.reps > 1 ? `.then(${step.reps}.reps(_ => ${call}))` : `.then(${call})`
+  })
+  const init = scenario.init || 'init'
+  return links.length > 1 ? [init, ...links.map((l) => `  ${l}`)].join('\n') : init + links.join('')
+}
+
+/** Render a structured type, one variant or field per line when there are more than three */
+export function typeDefToQuint(def: TypeDef): string {
+  if (def.kind === 'sum') {
+    const variants = def.variants.map((v) => {
+      const name = v.name.trim() || 'Unnamed'
+      return v.payload.trim() ? `${name}(${v.payload.trim()})` : name
+    })
+    if (variants.length === 0) return 'int'
+    return variants.join(variants.length > 3 ? '\n| ' : ' | ')
+  }
+  const fields = def.fields.map((f) => `${f.name.trim() || 'unnamed'}: ${f.type.trim() || 'int'}`)
+  if (fields.length === 0) return '{}'
+  return fields.length > 3 ? `{\n${fields.map((f) => `  ${f}`).join(',\n')}\n}` : `{ ${fields.join(', ')} }`
+}
+
 function indentLines(text: string, indent: string): string {
   return text
     .split('\n')
@@ -100,7 +196,8 @@ export function declToQuint(d: VisualDeclaration): string {
     case 'def':
     case 'action': {
       const pureDef = d.pure && d.kind === 'def' ? 'pure ' : ''
-      const params = d.params ? `(${d.params})` : ''
+      const paramList = paramsToQuint(d.params)
+      const params = paramList ? `(${paramList})` : ''
       const ret = d.type ? ': ' + d.type : ''
       const body = d.body || '???'
       if (body.includes('\n')) {
@@ -120,16 +217,35 @@ export function declToQuint(d: VisualDeclaration): string {
             .join('\n')
           return `  action ${name}${params}${ret} = all {\n${clauses}\n  }`
         }
+        // Bodies that already open an all { } / any { } block need no extra braces
+        if (alreadyWrapped && !hasBindings) {
+          const [first, ...rest] = body.split('\n')
+          return `  ${pureDef}${d.kind} ${name}${params}${ret} = ${first.trimStart()}\n${indentLines(rest.join('\n'), '  ')}`
+        }
         return `  ${pureDef}${d.kind} ${name}${params}${ret} = {\n${indentLines(body, '    ')}\n  }`
       }
       return `  ${pureDef}${d.kind} ${name}${params}${ret} = ${body}`
     }
 
-    case 'type':
-      return `  type ${name} = ${d.body || 'int'}`
+    case 'type': {
+      const body = d.typeDef ? typeDefToQuint(d.typeDef) : d.body || 'int'
+      const [first, ...rest] = body.split('\n')
+      const tail = rest.length > 0 ? '\n' + indentLines(rest.join('\n'), '    ') : ''
+      return `  type ${name} = ${first}${tail}`
+    }
+
+    case 'temporal':
+      return `  temporal ${name} = ${d.body || 'true'}`
 
     case 'assume':
       return `  assume ${name} = ${d.body || 'true'}`
+
+    case 'run': {
+      const body = d.scenario ? scenarioToQuint(d.scenario) : d.body || 'init'
+      const [first, ...rest] = body.split('\n')
+      const tail = rest.length > 0 ? '\n' + indentLines(rest.join('\n'), '    ') : ''
+      return `  run ${name} = ${first}${tail}`
+    }
   }
 }
 
@@ -141,40 +257,54 @@ const KIND_ORDER: Record<DeclKind, number> = {
   val: 3,
   def: 4,
   action: 5,
-  assume: 6,
-}
-
-/** Extract param names from a params string like "amount: int, name: str" */
-function parseParamNames(params: string): string[] {
-  if (!params.trim()) return []
-  return params.split(',').map((p) => p.split(':')[0].trim()).filter(Boolean)
+  temporal: 6,
+  assume: 7,
+  run: 8,
 }
 
-/** Extract unique {name, type} pairs from params across multiple actions */
-function collectUniqueParams(actions: VisualDeclaration[]): { name: string; type: string }[] {
-  const seen = new Map<string, string>()
-  for (const a of actions) {
-    if (!a.params?.trim()) continue
-    for (const part of a.params.split(',')) {
-      const [name, type] = part.split(':').map((s) => s.trim())
-      if (name && !seen.has(name)) {
-        seen.set(name, type || 'int')
-      }
-    }
+/** Render a parameter domain as a set expression */
+export function domainToQuint(domain: ParamDomain): string {
+  switch (domain.kind) {
+    case 'range':
+      return `${domain.from.trim() || '0'}.to(${domain.to.trim() || '0'})`
+    case 'set':
+      return `Set(${domain.values.trim()})`
+    case 'ref':
+      return domain.name || 'Set()'
   }
-  return [...seen.entries()].map(([name, type]) => ({ name, type }))
 }
 
-/** Pick a sensible nondet range for a Quint type */
-function nondetRange(type: string): string {
-  const t = type.toLowerCase()
+/**
+ * Guess a nondet domain for a parameter type. Sum types declared on the canvas
+ * range over their constructors, with payloads drawn from their own defaults.
+ */
+export function defaultDomain(type: string, decls: VisualDeclaration[], seen = new Set<string>()): string {
+  const t = type.trim()
   if (t === 'bool') return 'Set(true, false)'
   if (t === 'str') return 'Set("a", "b", "c")'
+
+  const sum = decls.find((d) => d.kind === 'type' && d.name === t)?.typeDef
+  if (sum?.kind === 'sum' && !seen.has(t)) {
+    seen.add(t)
+    const plain = sum.variants.filter((v) => !v.payload).map((v) => v.name)
+    const parts = [
+      ...(plain.length > 0 ? [`Set(${plain.join(', ')})`] : []),
+      ...sum.variants
+        .filter((v) => v.payload)
+        .map((v) => `${defaultDomain(v.payload, decls, seen)}.map(x => ${v.name}(x))`),
+    ]
+    if (parts.length > 0) return parts.reduce((acc, p) => `${acc}.union(${p})`)
+  }
   return '1.to(100)'
 }
 
+/** The set a parameter's values are drawn from: its own domain, or one guessed from its type */
+export function paramDomain(p: Param, decls: VisualDeclaration[]): string {
+  return p.domain ? domainToQuint(p.domain) : defaultDomain(p.type, decls)
+}
+
 /** Generate combined init/step actions when multiple actions share a role */
-function generateCombinedActions(decls: VisualDeclaration[]): string[] {
+export function generateCombinedActions(decls: VisualDeclaration[]): string[] {
   const extra: string[] = []
 
   const initActions = decls.filter((d) => d.role === 'init' && d.kind === 'action')
@@ -202,22 +332,15 @@ function generateCombinedActions(decls: VisualDeclaration[]): string[] {
     (stepActions.length > 1 ||
       (stepActions.length === 1 && stepActions[0].name !== 'step'))
   if (needsStep) {
-    const params = collectUniqueParams(stepActions)
-    const calls = stepActions
-      .map((a) => {
-        const args = parseParamNames(a.params).join(', ')
-        return `    ${a.name}${args ? `(${args})` : ''}`
-      })
-      .join(',\n')
-
-    if (params.length > 0) {
-      const bindings = params
-        .map((p) => `    nondet ${p.name} = ${nondetRange(p.type)}.oneOf()`)
-        .join('\n')
-      extra.push(`  action step = {\n${bindings}\n    any {\n${calls},\n    }\n  }`)
-    } else {
-      extra.push(`  action step = any {\n${calls},\n  }`)
-    }
+    // Each action binds its own parameters, so equal names never clash
+    const branches = stepActions.map((a) => {
+      const params = a.params.filter((p) => p.name.trim())
+      if (params.length === 0) return `    ${a.name}`
+      const bindings = params.map((p) => `      nondet ${p.name.trim()} = ${paramDomain(p, decls)}.oneOf()`)
+      const call = `${a.name}(${params.map((p) => p.name.trim()).join(', ')})`
+      return `    {\n${bindings.join('\n')}\n      ${call}\n    }`
+    })
+    extra.push(`  action step = any {\n${branches.join(',\n')},\n  }`)
   }
 
   // Auto-generate a test run when init + step exist
@@ -226,7 +349,12 @@ function generateCombinedActions(decls: VisualDeclaration[]): string[] {
   const hasStep =
     stepActions.length > 0 || decls.some((d) => d.name === 'step' && d.kind === 'action')
 
-  if (hasInit && hasStep) {
+  // Skip it if the canvas already declares one (e.g. imported from a .qnt)
+  const hasGeneratedTest = decls.some(
+    (d) => d.kind === 'run' && (d.name === 'invariantTest' || d.name === 'simulationTest')
+  )
+
+  if (hasInit && hasStep && !hasGeneratedTest) {
     const invariants = decls.filter(
       (d) => d.role === 'invariant' && d.name && (d.kind === 'val' || d.kind === 'def')
     )
@@ -244,14 +372,70 @@ function generateCombinedActions(decls: VisualDeclaration[]): string[] {
   return extra
 }
 
-/** Generate Quint code from a flat list of declarations and a module name */
-export function declsToQuint(moduleName: string, decls: VisualDeclaration[]): string {
-  if (decls.length === 0) return `module ${moduleName || 'Unnamed'} {\n}`
+/** Quint source for an import/export; modules live next to each other as `<Name>.qnt` */
+export function importToQuint(imp: ModuleImport): string {
+  const name = imp.name ? `${imp.module}.${imp.name}` : imp.module
+  // Only a qualified import (no `.name`) can be renamed
+  const target = imp.alias && !imp.name ? `${name} as ${imp.alias}` : name
+  return imp.keyword === 'import'
+    ? `  import ${target} from "./${imp.module}"`
+    : `  export ${target}`
+}
+
+/** Where a node's declaration ended up in the generated module (1-based, inclusive lines) */
+export interface SourceMapEntry {
+  nodeId: string
+  startLine: number
+  endLine: number
+  /** Generated line holding the first line of the node's body */
+  bodyLine: number
+}
+
+/** Generate Quint code plus the line range each declaration occupies */
+export function declsToQuintWithSourceMap(
+  moduleName: string,
+  decls: VisualDeclaration[],
+  imports: ModuleImport[] = []
+): { code: string; sourceMap: SourceMapEntry[] } {
+  const header = imports.filter((imp) => imp.module).map(importToQuint)
+  const opening = `module ${moduleName || 'Unnamed'} {`
+  if (decls.length === 0 && header.length === 0) return { code: `${opening}\n}`, sourceMap: [] }
+
   const sorted = [...decls].sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind])
-  const lines = sorted.map(declToQuint)
-  const combined = generateCombinedActions(decls)
-  const body = [...lines, ...combined].join('\n\n')
-  return `module ${moduleName || 'Unnamed'} {\n${body}\n}`
+  const sections: { text: string; decl?: VisualDeclaration }[] = [
+    ...(header.length > 0 ? [{ text: header.join('\n') }] : []),
+    ...sorted.map((d) => ({ text: declToQuint(d), decl: d })),
+    ...generateCombinedActions(decls).map((text) => ({ text })),
+  ]
+
+  const sourceMap: SourceMapEntry[] = []
+  let line = 2
+  for (const { text, decl } of sections) {
+    const lines = text.split('\n')
+    if (decl) {
+      const firstBodyLine = decl.body.split('\n').find((l) => l.trim())?.trim()
+      const offset = firstBodyLine ? lines.findIndex((l) => l.includes(firstBodyLine)) : -1
+      sourceMap.push({
+        nodeId: decl.id,
+        startLine: line,
+        endLine: line + lines.length - 1,
+        bodyLine: line + Math.max(offset, 0),
+      })
+    }
+    line += lines.length + 1
+  }
+
+  const code = `${opening}\n${sections.map((s) => s.text).join('\n\n')}\n}`
+  return { code, sourceMap }
+}
+
+/** Generate Quint code from a flat list of declarations and a module name */
+export function declsToQuint(
+  moduleName: string,
+  decls: VisualDeclaration[],
+  imports: ModuleImport[] = []
+): string {
+  return declsToQuintWithSourceMap(moduleName, decls, imports).code
 }
 
 /** Detect state machine roles by name convention */
@@ -0,0 +1,124 @@
+import type { VisualDeclaration } from './spec'
+import {
+  type ExplorerState,
+  type ExplorerStep,
+  type ReplSender,
+  callOf,
+  exploreChoices,
+  startExploration,
+} from './explorer'
+
+/**
+ * Reachable states up to a depth, found breadth-first with the explorer's
+ * REPL steps. The concrete actions are tried with the same bounded argument
+ * choices, and nondeterminism inside an action (or in `init`) is only sampled.
+ */
+
+export interface StateGraphNode {
+  id: string
+  state: ExplorerState
+  /** Steps from an initial state on the shortest path found */
+  depth: number
+  /** Invariants that are false in this state */
+  violated: string[]
+}
+
+export interface StateGraphEdge {
+  from: string
+  to: string
+  /** The call that fired, e.g. `deposit("alice", 5)` */
+  label: string
+}
+
+export interface StateGraph {
+  nodes: StateGraphNode[]
+  edges: StateGraphEdge[]
+  depth: number
+  /** Stopped at MAX_GRAPH_STATES or cancelled before reaching `depth` */
+  truncated: boolean
+}
+
+/** States kept before giving up; the graph is for small specs */
+export const MAX_GRAPH_STATES = 200
+
+/** Times `init` is fired to collect initial states when it is nondeterministic */
+const INIT_SAMPLES = 5
+
+/** Identifies a state by its variable values, whatever order they come in */
+export function stateKey(state: ExplorerState): string {
+  return JSON.stringify(Object.entries(state).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+export async function reachableStates(
+  repl: ReplSender,
+  decls: VisualDeclaration[],
+  vars: string[],
+  invariants: string[],
+  depth: number,
+  options: { signal?: AbortSignal; onProgress?: (states: number) => void } = {}
+): Promise<StateGraph> {
+  const graph: StateGraph = { nodes: [], edges: [], depth, truncated: false }
+  const ids = new Map<string, string>()
+  const edgeKeys = new Set<string>()
+
+  /** The id of a state, adding it at `level` when it is new (or null once the graph is full) */
+  const visit = (step: ExplorerStep, level: number): { id: string; added: boolean } | null => {
+    const key = stateKey(step.state)
+    const known = ids.get(key)
+    if (known) return { id: known, added: false }
+    if (graph.nodes.length >= MAX_GRAPH_STATES) {
+      graph.truncated = true
+      return null
+    }
+    const id = `s${graph.nodes.length}`
+    ids.set(key, id)
+    graph.nodes.push({ id, state: step.state, depth: level, violated: step.violated })
+    options.onProgress?.(graph.nodes.length)
+    return { id, added: true }
+  }
+
+  let frontier: ExplorerStep[] = []
+  for (let i = 0; i < INIT_SAMPLES; i++) {
+    const initial = await startExploration(repl, vars, invariants)
+    if (visit(initial, 0)?.added) frontier.push(initial)
+  }
+
+  for (let level = 1; level <= depth && frontier.length > 0; level++) {
+    const next: ExplorerStep[] = []
+    for (const from of frontier) {
+      if (options.signal?.aborted) {
+        graph.truncated = true
+        return graph
+      }
+      const fromId = ids.get(stateKey(from.state))!
+      for (const choice of await exploreChoices(repl, from, decls, invariants, options.signal)) {
+        if (!choice.next) continue
+        const target = visit(choice.next, level)
+        if (!target) continue
+        if (target.added) next.push(choice.next)
+        const label = callOf(choice.action, choice.args)
+        const edgeKey = `${fromId} ${target.id} ${label}`
+        if (!edgeKeys.has(edgeKey)) {
+          edgeKeys.add(edgeKey)
+          graph.edges.push({ from: fromId, to: target.id, label })
+        }
+      }
+    }
+    frontier = next
+  }
+  // Stopped while trying the actions out of the last states
+  if (options.signal?.aborted) graph.truncated = true
+  return graph
+}
+
+/** Positions for drawing: one column per depth, states stacked within it */
+export function layoutStateGraph(graph: StateGraph): Record<string, { x: number; y: number }> {
+  const positions: Record<string, { x: number; y: number }> = {}
+  const rows = new Map<number, number>()
+  for (const node of graph.nodes) {
+    const row = rows.get(node.depth) ?? 0
+    rows.set(node.depth, row + 1)
+    positions[node.id] = { x: node.depth * 220, y: row * 90 }
+  }
+  return positions
+}
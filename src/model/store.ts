@@ -15,15 +15,33 @@ import {
   type VisualDeclaration,
   type DeclKind,
   type DeclNodeData,
+  type ModuleImport,
   type RoleGroupData,
   createDeclaration,
   createStateMachineDecls,
-  declsToQuint,
+  type SourceMapEntry,
+  declToQuint,
+  declsToQuintWithSourceMap,
+  generateCombinedActions,
 } from './spec'
+import type { NodeDiagnostic } from './diagnostics'
+import type { QuintLocation } from './api'
+import type { ItfTrace } from './itf'
+import type { DependencyKind } from './dependencies'
+import { checkDeclarations } from './checks'
+import type { TestResult } from './tests'
+import type { ReplEntry } from './repl'
+import { type ExplorerChoice, type ExplorerStep, explorerTrace } from './explorer'
+import { type QuintBackend, type RunConfig, type RunHistoryEntry, DEFAULT_RUN_CONFIG } from './runConfigs'
+import { parseParams, parseQuintModule, parseQuintModules } from './parser'
+import { SavedStateError, persistStorage, reportLoadFailure, reportRepairs } from './persistence'
 
 /** Union of all node data types */
 export type AnyNodeData = DeclNodeData | RoleGroupData
 
+/** Runs kept in the history; older ones are dropped */
+const MAX_RUN_HISTORY = 50
+
 const GROUP_PADDING = 15
 const GROUP_HEADER = 30
 const GROUP_BUTTON_AREA = 40
@@ -177,13 +195,371 @@ const KIND_TO_NODE_TYPE: Record<DeclKind, string> = {
   def: 'def',
   action: 'action',
   type: 'type',
+  temporal: 'temporal',
   assume: 'val', // treat assume like val visually
+  run: 'run',
+}
+
+type GroupRole = RoleGroupData['role']
+
+const GROUP_LABELS: Record<GroupRole, string> = {
+  init: 'INIT',
+  state: 'STATE',
+  actions: 'ACTIONS',
+  step: 'STEP',
+  invariant: 'INVARIANTS',
+}
+
+/** Edges between role groups, drawn whenever both ends exist */
+const GROUP_EDGES: {
+  source: GroupRole
+  target: GroupRole
+  sourceHandle: string
+  targetHandle: string
+  label: string
+  color: string
+}[] = [
+  // INIT → STATE (left to right: init's right side to state's left side)
+  { source: 'init', target: 'state', sourceHandle: 'right', targetHandle: 'left', label: 'initializes', color: '#4ade80' },
+  // STEP → ACTIONS (bottom to top: step's top to actions' bottom)
+  { source: 'step', target: 'actions', sourceHandle: 'top', targetHandle: 'bottom', label: 'calls', color: '#a78bfa' },
+  // ACTIONS → STATE (right to left: actions' left side to state's right side)
+  { source: 'actions', target: 'state', sourceHandle: 'left', targetHandle: 'right', label: 'updates', color: '#fb923c' },
+  // STATE → INVARIANTS (top to bottom: state's bottom to invariants' top)
+  { source: 'state', target: 'invariant', sourceHandle: 'bottom', targetHandle: 'top', label: 'checked by', color: '#facc15' },
+]
+
+/** Pick the role group a declaration is placed in */
+function groupRoleFor(d: VisualDeclaration): GroupRole {
+  if (d.role === 'init') return 'init'
+  if (d.role === 'step') return 'step'
+  if (d.role === 'invariant' || d.kind === 'temporal' || d.kind === 'assume' || d.kind === 'run') return 'invariant'
+  if (d.kind === 'action' || d.kind === 'def') return 'actions'
+  return 'state'
+}
+
+/** Rough rendered height of a declaration node before React Flow measures it */
+function estimateNodeHeight(d: VisualDeclaration): number {
+  if (d.kind === 'var' || d.kind === 'const' || (d.kind === 'type' && !d.typeDef)) return 50
+  const rows = d.typeDef?.kind === 'sum' ? d.typeDef.variants : d.typeDef?.fields
+  const lines = rows ? rows.length : d.body ? d.body.split('\n').length : 0
+  return 42 + Math.min(lines * 18 + 16, 136)
+}
+
+/**
+ * Place declarations into INIT / STATE / ACTIONS / STEP / INVARIANTS groups
+ * around (x, y), wired with the group edges describing execution order.
+ */
+function layoutRoleGroups(
+  decls: VisualDeclaration[],
+  x: number,
+  y: number
+): { nodes: Node<AnyNodeData>[]; edges: Edge[] } {
+  const members = new Map<GroupRole, VisualDeclaration[]>()
+  for (const d of decls) {
+    const role = groupRoleFor(d)
+    members.set(role, [...(members.get(role) ?? []), d])
+  }
+
+  // Children stack vertically inside each group
+  const childX = GROUP_PADDING
+  const placed = new Map<GroupRole, { children: Node<AnyNodeData>[]; height: number }>()
+  for (const [role, list] of members) {
+    let childY = GROUP_HEADER + 10
+    const children = list.map((d) => {
+      const node: Node<AnyNodeData> = {
+        id: d.id,
+        type: KIND_TO_NODE_TYPE[d.kind],
+        position: { x: childX, y: childY },
+        data: { ...d },
+      }
+      childY += estimateNodeHeight(d) + 20
+      return node
+    })
+    placed.set(role, { children, height: childY + GROUP_PADDING + GROUP_BUTTON_AREA })
+  }
+
+  // Flow layout representing execution:
+  // 1. INIT initializes STATE (left to right)
+  // 2. STEP reads STATE and calls ACTIONS (center loop)
+  // 3. ACTIONS update STATE
+  // 4. INVARIANTS check STATE (below)
+  //
+  //    INIT ──→ STATE ←── ACTIONS
+  //               │           ↑
+  //               │         STEP
+  //               ↓
+  //          INVARIANTS
+  //
+  // Groups are ~280px wide, use 450px spacing between columns
+  const col1 = x - 450 // Left (INIT)
+  const col2 = x // Center (STATE, INVARIANTS)
+  const col3 = x + 450 // Right (ACTIONS, STEP)
+
+  const row1 = y // Top (INIT, STATE, ACTIONS)
+  const row2 = row1 + Math.max(340, (placed.get('actions')?.height ?? 0) + 40) // Below ACTIONS
+  const row3 = row1 + Math.max(350, (placed.get('state')?.height ?? 0) + 40) // Below STATE
+
+  const origins: Record<GroupRole, { x: number; y: number }> = {
+    init: { x: col1, y: row1 },
+    state: { x: col2, y: row1 },
+    actions: { x: col3, y: row1 },
+    step: { x: col3, y: row2 },
+    invariant: { x: col2, y: row3 },
+  }
+
+  const groupIds = new Map<GroupRole, string>()
+  const nodes: Node<AnyNodeData>[] = []
+  for (const role of Object.keys(GROUP_LABELS) as GroupRole[]) {
+    const group = placed.get(role)
+    if (!group) continue
+    const groupId = nanoid(8)
+    groupIds.set(role, groupId)
+    nodes.push({
+      id: groupId,
+      type: 'role-group',
+      position: origins[role],
+      data: { isGroup: true, role, label: GROUP_LABELS[role] },
+      style: { width: 1, height: 1 },
+    })
+    nodes.push(...group.children.map((c) => ({ ...c, parentId: groupId })))
+  }
+
+  const edges: Edge[] = []
+  for (const e of GROUP_EDGES) {
+    const source = groupIds.get(e.source)
+    const target = groupIds.get(e.target)
+    if (!source || !target) continue
+    edges.push({
+      id: `e-${source}-${target}`,
+      source,
+      target,
+      sourceHandle: e.sourceHandle,
+      targetHandle: e.targetHandle,
+      type: 'smoothstep',
+      animated: true,
+      label: e.label,
+      style: { stroke: e.color, strokeWidth: 2 },
+      labelStyle: { fill: e.color, fontSize: 10 },
+    })
+  }
+
+  return { nodes, edges }
+}
+
+/** Y offset below the lowest child of a group, where a new child fits */
+function nextChildY(nodes: Node<AnyNodeData>[], groupId: string): number {
+  let maxBottom = GROUP_HEADER + 5
+  for (const child of nodes) {
+    if (child.parentId !== groupId) continue
+    const h = child.measured?.height ?? 80
+    const bottom = child.position.y + h + COLLISION_PAD
+    if (bottom > maxBottom) maxBottom = bottom
+  }
+  return maxBottom
+}
+
+/** Position for a declaration that has no node yet: its role group, or below the canvas */
+function placeNewDecl(
+  nodes: Node<AnyNodeData>[],
+  d: VisualDeclaration
+): Pick<Node<AnyNodeData>, 'position' | 'parentId'> {
+  const role = groupRoleFor(d)
+  const group = nodes.find(
+    (n) => n.type === 'role-group' && (n.data as RoleGroupData).role === role
+  )
+  if (group) {
+    return { position: { x: GROUP_PADDING, y: nextChildY(nodes, group.id) }, parentId: group.id }
+  }
+  let maxBottom = -Infinity
+  let minLeft = Infinity
+  for (const n of nodes) {
+    if (n.parentId) continue
+    const h = n.measured?.height ?? (n.style as Record<string, number> | undefined)?.height ?? 80
+    maxBottom = Math.max(maxBottom, n.position.y + h + 40)
+    minLeft = Math.min(minLeft, n.position.x)
+  }
+  return {
+    position: {
+      x: Number.isFinite(minLeft) ? minLeft : 0,
+      y: Number.isFinite(maxBottom) ? maxBottom : 0,
+    },
+  }
+}
+
+const normalizeSpace = (code: string) => code.replace(/\s+/g, ' ').trim()
+
+/**
+ * Merge declarations parsed from edited code into the current nodes.
+ * Existing nodes are matched by name (preferring the same kind) so they keep
+ * their id, position and role; unmatched parsed declarations become new
+ * nodes and unmatched nodes are removed. Declarations that `declsToQuint`
+ * synthesizes (combined init/step, test runs) are skipped when unchanged.
+ */
+function mergeParsedDecls(
+  nodes: Node<AnyNodeData>[],
+  parsed: VisualDeclaration[]
+): { nodes: Node<AnyNodeData>[]; removedIds: Set<string>; changed: boolean } {
+  const declNodes = nodes.filter((n) => n.type !== 'role-group')
+  const current = declNodes.map((n) => n.data as VisualDeclaration)
+  const generated = new Set(generateCombinedActions(current).map(normalizeSpace))
+
+  const claimed = new Set<string>()
+  const updates = new Map<string, Node<AnyNodeData>>()
+  const added: VisualDeclaration[] = []
+
+  const claim = (match: Node<AnyNodeData>, p: VisualDeclaration) => {
+    claimed.add(match.id)
+    const old = match.data as VisualDeclaration
+    const sameKind = old.kind === p.kind
+    const next: VisualDeclaration = {
+      ...old,
+      kind: p.kind,
+      name: p.name,
+      type: p.type,
+      // Domains aren't part of the Quint source, so keep them by parameter name
+      params: p.params.map((param) => {
+        const domain = old.params.find((o) => o.name === param.name)?.domain
+        return domain ? { ...param, domain } : param
+      }),
+      body: p.body,
+      pure: p.pure,
+      scenario: p.scenario,
+      typeDef: p.typeDef,
+      role: sameKind ? old.role : p.role,
+    }
+    if (normalizeSpace(declToQuint(next)) === normalizeSpace(declToQuint(old)) && sameKind) return
+    updates.set(match.id, {
+      ...match,
+      type: KIND_TO_NODE_TYPE[p.kind],
+      data: { ...match.data, ...next },
+    })
+  }
+
+  const unmatched: VisualDeclaration[] = []
+  for (const p of parsed) {
+    const candidates = declNodes.filter(
+      (n) => !claimed.has(n.id) && (n.data as VisualDeclaration).name === p.name
+    )
+    const match =
+      candidates.find((n) => (n.data as VisualDeclaration).kind === p.kind) ?? candidates[0]
+    if (match) claim(match, p)
+    else if (!generated.has(normalizeSpace(declToQuint(p)))) unmatched.push(p)
+  }
+
+  // A renamed (or half-typed) declaration takes over an unclaimed node of the
+  // same kind, in source order, so it keeps its id, position, edges and role
+  for (const p of unmatched) {
+    const match = declNodes.find((n) => !claimed.has(n.id) && (n.data as VisualDeclaration).kind === p.kind)
+    if (match) claim(match, p)
+    else added.push(p)
+  }
+
+  const removedIds = new Set(declNodes.filter((n) => !claimed.has(n.id)).map((n) => n.id))
+  if (updates.size === 0 && added.length === 0 && removedIds.size === 0) {
+    return { nodes, removedIds, changed: false }
+  }
+
+  let result = nodes
+    .filter((n) => !removedIds.has(n.id))
+    .map((n) => updates.get(n.id) ?? n)
+  for (const d of added) {
+    result = [
+      ...result,
+      {
+        id: d.id,
+        type: KIND_TO_NODE_TYPE[d.kind],
+        ...placeNewDecl(result, d),
+        data: { ...d },
+      },
+    ]
+  }
+
+  return { nodes: resizeGroups(result), removedIds, changed: true }
 }
 
 interface HistoryEntry {
   nodes: Node<AnyNodeData>[]
   edges: Edge[]
   moduleName: string
+  imports: ModuleImport[]
+}
+
+/** A counterexample (or sample) trace being stepped through on the canvas */
+export interface ReplayState {
+  trace: ItfTrace
+  step: number
+  /** Invariants to mark as violated in the final state (empty when the run passed) */
+  violated: string[]
+  /** Set while the state explorer drives the canvas; it has its own controls */
+  exploring?: boolean
+}
+
+/** A manual exploration: the path taken so far and the transitions out of its last state */
+export interface ExplorationState {
+  path: ExplorerStep[]
+  choices: ExplorerChoice[]
+}
+
+/** A module of the workspace. The active module's live data is kept in the top-level fields */
+export interface WorkspaceModule {
+  id: string
+  name: string
+  nodes: Node<AnyNodeData>[]
+  edges: Edge[]
+  imports: ModuleImport[]
+}
+
+/** What a project consists of: its modules, run configurations and run history */
+export type ProjectData = Pick<
+  AppState,
+  | 'nodes'
+  | 'edges'
+  | 'moduleName'
+  | 'imports'
+  | 'modules'
+  | 'activeModuleId'
+  | 'runConfigs'
+  | 'activeRunConfigId'
+  | 'runHistory'
+>
+
+/** A named project. The active project's live data is kept in the top-level fields */
+export interface Project {
+  id: string
+  name: string
+  /** When it was created or last left, in ms since the epoch */
+  updatedAt: number
+  data: ProjectData
+}
+
+/** A fresh project: one empty module and the default run configuration */
+export function emptyProjectData(): ProjectData {
+  return {
+    nodes: [],
+    edges: [],
+    moduleName: 'MyModule',
+    imports: [],
+    modules: [{ id: 'main', name: 'MyModule', nodes: [], edges: [], imports: [] }],
+    activeModuleId: 'main',
+    runConfigs: [DEFAULT_RUN_CONFIG],
+    activeRunConfigId: DEFAULT_RUN_CONFIG.id,
+    runHistory: [],
+  }
+}
+
+/** Generated source of one workspace module, as sent to the Quint API */
+export interface ModuleFile {
+  name: string
+  code: string
+}
+
+function declsOfNodes(nodes: Node<AnyNodeData>[]): VisualDeclaration[] {
+  return nodes.filter((n) => n.type !== 'role-group').map((n) => n.data as VisualDeclaration)
+}
+
+function moduleCode(name: string, nodes: Node<AnyNodeData>[], imports: ModuleImport[]) {
+  return declsToQuintWithSourceMap(name, declsOfNodes(nodes), imports)
 }
 
 export interface AppState {
@@ -194,41 +570,500 @@ export interface AppState {
   onEdgesChange: OnEdgesChange
   onConnect: OnConnect
 
-  // Single module
+  // Active module
   moduleName: string
+  imports: ModuleImport[]
+
+  // Workspace
+  modules: WorkspaceModule[]
+  activeModuleId: string
+
   selectedNodeId: string | null
   showCodePreview: boolean
+  /** Which derived read/write edges are drawn alongside the manual ones */
+  showDependencies: Record<DependencyKind, boolean>
   panelWidth: number
 
+  // Typecheck errors per node id, refreshed in the background
+  diagnostics: Record<string, NodeDiagnostic[]>
+  /** Errors that could not be attributed to a node */
+  moduleDiagnostics: QuintLocation[]
+  /** Offline static check warnings per node id, kept in step with every edit */
+  warnings: Record<string, string[]>
+
+  // Trace replay
+  replay: ReplayState | null
+
+  /** Latest `quint test` outcome per run name */
+  testResults: Record<string, TestResult>
+
+  // Saved `quint run` options, shared by all modules of the project
+  runConfigs: RunConfig[]
+  activeRunConfigId: string
+  /** Finished simulations with their seeds, newest first */
+  runHistory: RunHistoryEntry[]
+
+  // Projects
+  projects: Project[]
+  activeProjectId: string
+
+  /** Commands and replies of this tab's REPL session */
+  replLog: ReplEntry[]
+
+  /** Manual stepping through the state machine, shown on the canvas like a replay */
+  exploration: ExplorationState | null
+
   // History
   history: HistoryEntry[]
   historyIndex: number
 
   // Actions
   setModuleName: (name: string) => void
-  addDeclNode: (kind: DeclKind, x: number, y: number) => void
+  setImports: (imports: ModuleImport[]) => void
+  addModule: () => void
+  switchModule: (id: string) => void
+  deleteModule: (id: string) => void
+  /** All modules with the active one's live data folded in */
+  getModules: () => WorkspaceModule[]
+  /** All projects with the active one's live data folded in */
+  getProjects: () => Project[]
+  /** Add an empty project and switch to it */
+  createProject: () => void
+  switchProject: (id: string) => void
+  renameProject: (id: string, name: string) => void
+  duplicateProject: (id: string) => void
+  deleteProject: (id: string) => void
+  /** Add a project with the given data (e.g. from a project file) and switch to it */
+  addProject: (name: string, data: ProjectData) => void
+  /** Add a declaration of `kind` with its defaults, overridden by `data` */
+  addDeclNode: (kind: DeclKind, x: number, y: number, data?: Partial<VisualDeclaration>) => void
   addStateMachineNodes: (x: number, y: number) => void
+  /** Replace the canvas with the declarations of a .qnt module (throws QuintParseError) */
+  importQuintModule: (source: string) => void
+  /** Apply edited module text back onto the existing nodes (throws QuintParseError) */
+  syncFromQuint: (source: string) => void
   addNodeToGroup: (groupId: string) => void
   updateDeclNode: (nodeId: string, updates: Partial<VisualDeclaration>) => void
   deleteDeclNode: (nodeId: string) => void
 
   setSelectedNode: (id: string | null) => void
   toggleCodePreview: () => void
+  toggleDependencies: (kind: DependencyKind) => void
   setPanelWidth: (width: number) => void
   clearCanvas: () => void
 
   getQuintCode: () => string
+  getQuintCodeWithSourceMap: () => { code: string; sourceMap: SourceMapEntry[] }
+  startReplay: (trace: ItfTrace, violated: string[]) => void
+  setReplayStep: (step: number) => void
+  stopReplay: () => void
+  /** Merge in results for the tests that were just run */
+  setTestResults: (results: Record<string, TestResult>) => void
+  /** Add a configuration copied from the active one and select it */
+  addRunConfig: () => void
+  updateRunConfig: (id: string, updates: Partial<RunConfig>) => void
+  deleteRunConfig: (id: string) => void
+  selectRunConfig: (id: string) => void
+  addRunHistory: (entry: RunHistoryEntry) => void
+  clearRunHistory: () => void
+  addReplEntry: (entry: ReplEntry) => void
+  clearReplLog: () => void
+  /** Show an exploration on the canvas, or end it with null */
+  setExploration: (exploration: ExplorationState | null) => void
+  setDiagnostics: (byNode: Record<string, NodeDiagnostic[]>, unmapped: QuintLocation[]) => void
+  /** Generated code for every workspace module, so imports resolve */
+  getWorkspaceFiles: () => ModuleFile[]
   undo: () => void
   redo: () => void
   pushHistory: () => void
 }
 
+/** Saved state as written by `partialize` */
+type PersistedState = Pick<
+  AppState,
+  | 'nodes'
+  | 'edges'
+  | 'moduleName'
+  | 'imports'
+  | 'modules'
+  | 'activeModuleId'
+  | 'runConfigs'
+  | 'activeRunConfigId'
+  | 'runHistory'
+  | 'projects'
+  | 'activeProjectId'
+  | 'panelWidth'
+>
+
+/** Version of the saved state; bump it and add a migration when its shape changes */
+const PERSIST_VERSION = 2
+
+/**
+ * Upgrades of a state saved in localStorage, keyed by the version they produce
+ * and applied in order from the saved version up to PERSIST_VERSION.
+ */
+const MIGRATIONS: Record<number, (state: PersistedState) => PersistedState> = {
+  // `params` changed from a `a: int, b` string to a list of { name, type }
+  1: (state) => {
+    const upgrade = (nodes: Node<AnyNodeData>[] = []) =>
+      nodes.map((n) =>
+        typeof n.data?.params === 'string' ? { ...n, data: { ...n.data, params: parseParams(n.data.params) } } : n
+      )
+    const upgraded = { ...state, nodes: upgrade(state.nodes) }
+    if (state.modules) upgraded.modules = state.modules.map((m) => ({ ...m, nodes: upgrade(m.nodes) }))
+    return upgraded
+  },
+  // A canvas saved before projects becomes the first project, named after its module
+  2: (state) =>
+    state.projects
+      ? state
+      : {
+          ...state,
+          projects: [{ id: 'default', name: state.moduleName || 'Untitled', updatedAt: 0, data: emptyProjectData() }],
+          activeProjectId: 'default',
+        },
+}
+
+function migratePersisted(persisted: unknown, version: number): PersistedState {
+  if (!isRecord(persisted)) throw new SavedStateError('The saved whiteboard is not an object')
+  if (version > PERSIST_VERSION) {
+    throw new SavedStateError(`The saved whiteboard is from a newer version of the app (schema ${version}, this one reads up to ${PERSIST_VERSION})`)
+  }
+  let state = persisted as unknown as PersistedState
+  for (let v = version + 1; v <= PERSIST_VERSION; v++) state = MIGRATIONS[v](state)
+  return state
+}
+
+/** Node types the canvas can draw */
+const NODE_TYPES = new Set([...Object.values(KIND_TO_NODE_TYPE), 'role-group'])
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** Why a stored node can't be drawn, or null when it can */
+function nodeProblem(node: unknown): string | null {
+  if (!isRecord(node) || typeof node.id !== 'string' || !isRecord(node.position) || !isRecord(node.data)) {
+    return 'malformed'
+  }
+  if (!NODE_TYPES.has(node.type as string)) return `unknown type "${node.type}"`
+  if (node.type === 'role-group') {
+    return typeof node.data.role === 'string' && typeof node.data.label === 'string' ? null : 'malformed group'
+  }
+  const kind = node.data.kind
+  if (!(typeof kind === 'string' && Object.hasOwn(KIND_TO_NODE_TYPE, kind))) return 'missing data.kind'
+  return null
+}
+
+const DOMAIN_KINDS = new Set(['range', 'set', 'ref'])
+
+/** A declaration node with the fields code generation relies on reset when missing or of the wrong type */
+function normalizeDeclNode(node: Node<AnyNodeData>, where: string, repairs: string[]): Node<AnyNodeData> {
+  const data: Record<string, unknown> = { ...node.data }
+  const reset: string[] = []
+  if (typeof data.id !== 'string') {
+    data.id = node.id
+    reset.push('id')
+  }
+  for (const field of ['name', 'type', 'body']) {
+    if (typeof data[field] !== 'string') {
+      data[field] = ''
+      reset.push(field)
+    }
+  }
+  const params = Array.isArray(data.params) ? data.params : []
+  const validParams = params
+    .filter((p) => isRecord(p) && typeof p.name === 'string' && typeof p.type === 'string')
+    .map((p) => (p.domain === undefined || (isRecord(p.domain) && DOMAIN_KINDS.has(p.domain.kind as string)) ? p : { ...p, domain: undefined }))
+  if (!Array.isArray(data.params) || validParams.length !== params.length || validParams.some((p, i) => p !== params[i])) {
+    data.params = validParams
+    reset.push('params')
+  }
+  const scenario = data.scenario
+  if (scenario !== undefined && !(isRecord(scenario) && typeof scenario.init === 'string' && Array.isArray(scenario.steps))) {
+    delete data.scenario
+    reset.push('scenario')
+  }
+  const typeDef = data.typeDef
+  if (
+    typeDef !== undefined &&
+    !(isRecord(typeDef) && (typeDef.kind === 'sum' ? Array.isArray(typeDef.variants) : typeDef.kind === 'record' && Array.isArray(typeDef.fields)))
+  ) {
+    delete data.typeDef
+    reset.push('typeDef')
+  }
+  if (reset.length === 0) return node
+  repairs.push(`${where}: reset ${reset.join(', ')} of node ${node.id}`)
+  return { ...node, data: data as AnyNodeData }
+}
+
+/**
+ * Drop stored nodes the canvas can't draw, and the edges and group links that
+ * point at missing nodes; reset malformed declaration fields. Every change is
+ * described in `repairs`. Used for saved state, project files and share links.
+ */
+export function repairCanvas(
+  nodes: unknown[],
+  edges: unknown[],
+  where: string,
+  repairs: string[]
+): { nodes: Node<AnyNodeData>[]; edges: Edge[] } {
+  const kept = nodes.filter((n): n is Node<AnyNodeData> => {
+    const problem = nodeProblem(n)
+    if (problem) repairs.push(`${where}: dropped node ${isRecord(n) ? n.id : '?'} (${problem})`)
+    return !problem
+  })
+  const ids = new Set(kept.map((n) => n.id))
+  return {
+    nodes: kept.map((n) => {
+      const node = n.type === 'role-group' ? n : normalizeDeclNode(n, where, repairs)
+      if (!node.parentId || ids.has(node.parentId)) return node
+      repairs.push(`${where}: node ${node.id} was in missing group ${node.parentId}, now ungrouped`)
+      return { ...node, parentId: undefined }
+    }),
+    edges: edges.filter((e): e is Edge => {
+      const ok = isRecord(e) && typeof e.id === 'string' && ids.has(e.source as string) && ids.has(e.target as string)
+      if (!ok) repairs.push(`${where}: dropped edge ${isRecord(e) ? e.id : '?'} (missing end node)`)
+      return ok
+    }),
+  }
+}
+
+/** Stored imports without the entries code generation can't use */
+export function repairImports(imports: unknown[], where: string, repairs: string[]): ModuleImport[] {
+  return imports.filter((imp): imp is ModuleImport => {
+    const ok =
+      isRecord(imp) &&
+      (imp.keyword === 'import' || imp.keyword === 'export') &&
+      typeof imp.module === 'string' &&
+      typeof imp.name === 'string'
+    if (!ok) repairs.push(`${where}: dropped a malformed import`)
+    return ok
+  })
+}
+
+/** Stored workspace modules with each canvas and import list repaired (throws SavedStateError) */
+export function repairModules(modules: unknown[], where: string, repairs: string[]): WorkspaceModule[] {
+  return modules.map((m) => {
+    if (!isRecord(m) || typeof m.id !== 'string' || typeof m.name !== 'string') {
+      throw new SavedStateError(`${where}: a module has no id or name`)
+    }
+    const label = `${where}, module "${m.name}"`
+    const list = (value: unknown) => (Array.isArray(value) ? value : [])
+    return {
+      id: m.id,
+      name: m.name,
+      ...repairCanvas(list(m.nodes), list(m.edges), label, repairs),
+      imports: repairImports(list(m.imports), label, repairs),
+    }
+  })
+}
+
+const BACKENDS = new Set<unknown>(['typescript', 'rust'] satisfies QuintBackend[])
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
+
+/**
+ * Stored run configurations with unknown fields dropped and fields of the
+ * wrong type reset to their defaults. Missing fields take the default quietly,
+ * since older configurations were saved without the newer options.
+ */
+export function repairRunConfigs(configs: unknown[], where: string, repairs: string[]): RunConfig[] {
+  return configs.flatMap((c) => {
+    if (!isRecord(c)) {
+      repairs.push(`${where}: dropped a malformed run configuration`)
+      return []
+    }
+    const config: RunConfig = { ...DEFAULT_RUN_CONFIG, id: typeof c.id === 'string' ? c.id : nanoid(8) }
+    const reset = typeof c.id === 'string' ? [] : ['id']
+    for (const field of ['name', 'init', 'step', 'seed'] as const) {
+      const value = c[field]
+      if (typeof value === 'string') config[field] = value
+      else if (value !== undefined) reset.push(field)
+    }
+    for (const field of ['maxSteps', 'maxSamples', 'nTraces'] as const) {
+      const value = c[field]
+      if (isCount(value)) config[field] = value
+      else if (value !== undefined) reset.push(field)
+    }
+    if (BACKENDS.has(c.backend)) config.backend = c.backend as QuintBackend
+    else if (c.backend !== undefined) reset.push('backend')
+    if (Array.isArray(c.invariants) && c.invariants.every((name) => typeof name === 'string')) {
+      config.invariants = c.invariants
+    } else if (c.invariants !== undefined) {
+      reset.push('invariants')
+    }
+    if (reset.length > 0) repairs.push(`${where}: reset ${reset.join(', ')} of run configuration "${config.name}"`)
+    return [config]
+  })
+}
+
+function isRunOptions(options: unknown): boolean {
+  return (
+    isRecord(options) &&
+    typeof options.init === 'string' &&
+    typeof options.step === 'string' &&
+    typeof options.invariant === 'string' &&
+    isCount(options.maxSteps) &&
+    isCount(options.maxSamples) &&
+    isCount(options.nTraces) &&
+    BACKENDS.has(options.backend) &&
+    (options.seed === undefined || typeof options.seed === 'string')
+  )
+}
+
+/** Stored run history without the entries that can't be shown or repeated */
+function repairRunHistory(entries: unknown[], where: string, repairs: string[]): RunHistoryEntry[] {
+  const kept = entries.filter(
+    (e): e is RunHistoryEntry =>
+      isRecord(e) &&
+      typeof e.id === 'string' &&
+      typeof e.at === 'number' &&
+      typeof e.ok === 'boolean' &&
+      typeof e.summary === 'string' &&
+      typeof e.config === 'string' &&
+      isRunOptions(e.options)
+  )
+  const dropped = entries.length - kept.length
+  if (dropped > 0) repairs.push(`${where}: dropped ${dropped} malformed run history ${dropped === 1 ? 'entry' : 'entries'}`)
+  return kept
+}
+
+/**
+ * Stored modules with an entry for the active canvas. Without one the tabs
+ * would show no active module and the canvas would never be saved back, so
+ * it is added when missing.
+ */
+function withActiveModule(
+  modules: WorkspaceModule[],
+  active: WorkspaceModule,
+  where: string,
+  repairs: string[]
+): WorkspaceModule[] {
+  if (modules.some((m) => m.id === active.id)) return modules
+  repairs.push(`${where}: the active module "${active.name}" was missing from the module list, added it back`)
+  return [...modules, active]
+}
+
+/** Check every canvas of a (migrated) saved state, repairing what can be repaired (throws SavedStateError) */
+function checkPersisted(persisted: unknown): { state: PersistedState; repairs: string[] } {
+  if (
+    !isRecord(persisted) ||
+    !Array.isArray(persisted.nodes) ||
+    !Array.isArray(persisted.edges) ||
+    typeof persisted.moduleName !== 'string'
+  ) {
+    throw new SavedStateError('The saved whiteboard has no canvas (nodes, edges and module name)')
+  }
+  for (const key of ['imports', 'modules', 'runConfigs', 'runHistory', 'projects']) {
+    if (persisted[key] !== undefined && !Array.isArray(persisted[key])) {
+      throw new SavedStateError(`The saved whiteboard's ${key} are not a list`)
+    }
+  }
+
+  const saved = persisted as unknown as PersistedState
+  const repairs: string[] = []
+  const where = `Module "${saved.moduleName}"`
+  const state: PersistedState = {
+    ...saved,
+    ...repairCanvas(saved.nodes, saved.edges, where, repairs),
+  }
+  if (saved.imports) state.imports = repairImports(saved.imports, where, repairs)
+  if (saved.modules) {
+    // The active module's entry is saved without its canvas, which is stored at the top level
+    const active = {
+      id: typeof saved.activeModuleId === 'string' ? saved.activeModuleId : 'main',
+      name: saved.moduleName,
+      nodes: [],
+      edges: [],
+      imports: [],
+    }
+    state.modules = withActiveModule(repairModules(saved.modules, 'Workspace', repairs), active, 'Workspace', repairs)
+    state.activeModuleId = active.id
+  }
+  if (saved.runConfigs) state.runConfigs = repairRunConfigs(saved.runConfigs, 'Run configurations', repairs)
+  if (saved.runHistory) state.runHistory = repairRunHistory(saved.runHistory, 'Run history', repairs)
+  if (saved.projects) {
+    state.projects = repairProjects(saved.projects, saved.activeProjectId, repairs)
+    if (!state.projects.some((p) => p.id === saved.activeProjectId)) {
+      // The live state belongs to the active project, so it needs an entry to be saved back into
+      const id = typeof saved.activeProjectId === 'string' ? saved.activeProjectId : nanoid(8)
+      repairs.push('Projects: the active project was missing from the project list, added it back')
+      state.projects = [...state.projects, { id, name: saved.moduleName, updatedAt: 0, data: emptyProjectData() }]
+      state.activeProjectId = id
+    }
+  }
+  return { state, repairs }
+}
+
+/**
+ * Stored projects with a usable id and name, and the data of every project
+ * but the active one (whose data is the top-level state) repaired like the
+ * top-level state (throws SavedStateError)
+ */
+function repairProjects(projects: unknown[], activeProjectId: unknown, repairs: string[]): Project[] {
+  const ids = new Set<string>()
+  return projects.map((p, i) => {
+    if (!isRecord(p) || !isRecord(p.data)) throw new SavedStateError('A saved project has no data')
+    const name = typeof p.name === 'string' ? p.name : `Project ${i + 1}`
+    const where = `Project "${name}"`
+    const reset: string[] = []
+    if (typeof p.name !== 'string') reset.push('name')
+    let id = p.id
+    if (typeof id !== 'string' || ids.has(id)) {
+      id = nanoid(8)
+      reset.push('id')
+    }
+    ids.add(id as string)
+    const updatedAt = typeof p.updatedAt === 'number' ? p.updatedAt : 0
+    if (typeof p.updatedAt !== 'number') reset.push('updatedAt')
+    if (reset.length > 0) repairs.push(`${where}: reset ${reset.join(', ')}`)
+
+    const list = (value: unknown) => (Array.isArray(value) ? value : [])
+    const canvas = repairCanvas(list(p.data.nodes), list(p.data.edges), where, repairs)
+    const imports = repairImports(list(p.data.imports), where, repairs)
+    const data = { ...p.data, ...canvas, imports } as ProjectData
+    if (id !== activeProjectId) {
+      const moduleName = typeof p.data.moduleName === 'string' ? p.data.moduleName : 'MyModule'
+      const activeModuleId = typeof p.data.activeModuleId === 'string' ? p.data.activeModuleId : 'main'
+      if (typeof p.data.moduleName !== 'string') repairs.push(`${where}: reset the module name`)
+      const active = { id: activeModuleId, name: moduleName, ...canvas, imports }
+      data.moduleName = moduleName
+      data.activeModuleId = activeModuleId
+      data.modules = withActiveModule(repairModules(list(p.data.modules), where, repairs), active, where, repairs)
+      const runConfigs = repairRunConfigs(list(p.data.runConfigs), where, repairs)
+      data.runConfigs = runConfigs.length > 0 ? runConfigs : [DEFAULT_RUN_CONFIG]
+      if (typeof data.activeRunConfigId !== 'string') data.activeRunConfigId = data.runConfigs[0].id
+      data.runHistory = repairRunHistory(list(p.data.runHistory), where, repairs)
+    }
+    return { id: id as string, name, updatedAt, data }
+  })
+}
+
 export const useAppStore = create<AppState>()(persist((set, get) => ({
   nodes: [],
   edges: [],
   moduleName: 'MyModule',
+  imports: [],
+  modules: [{ id: 'main', name: 'MyModule', nodes: [], edges: [], imports: [] }],
+  activeModuleId: 'main',
+  diagnostics: {},
+  moduleDiagnostics: [],
+  warnings: {},
+  replay: null,
+  testResults: {},
+  runConfigs: [DEFAULT_RUN_CONFIG],
+  activeRunConfigId: DEFAULT_RUN_CONFIG.id,
+  runHistory: [],
+  projects: [{ id: 'default', name: 'Untitled', updatedAt: 0, data: emptyProjectData() }],
+  activeProjectId: 'default',
+  replLog: [],
+  exploration: null,
   selectedNodeId: null,
   showCodePreview: false,
+  showDependencies: { reads: true, writes: true },
   panelWidth: 500,
 
   history: [],
@@ -288,11 +1123,12 @@ export const useAppStore = create<AppState>()(persist((set, get) => ({
   },
 
   pushHistory: () => {
-    const { nodes, edges, moduleName, history, historyIndex } = get()
+    const { nodes, edges, moduleName, imports, history, historyIndex } = get()
     const entry: HistoryEntry = {
       nodes: JSON.parse(JSON.stringify(nodes)),
       edges: JSON.parse(JSON.stringify(edges)),
       moduleName,
+      imports: JSON.parse(JSON.stringify(imports)),
     }
     const newHistory = history.slice(0, historyIndex + 1)
     newHistory.push(entry)
@@ -308,6 +1144,7 @@ export const useAppStore = create<AppState>()(persist((set, get) => ({
       nodes: entry.nodes,
       edges: entry.edges,
       moduleName: entry.moduleName,
+      imports: entry.imports ?? [],
       historyIndex: historyIndex - 1,
     })
   },
@@ -320,24 +1157,176 @@ export const useAppStore = create<AppState>()(persist((set, get) => ({
       nodes: entry.nodes,
       edges: entry.edges,
       moduleName: entry.moduleName,
+      imports: entry.imports ?? [],
       historyIndex: historyIndex + 1,
     })
   },
 
-  setModuleName: (name: string) => set({ moduleName: name }),
+  setModuleName: (name: string) => {
+    const { moduleName: oldName, modules, activeModuleId } = get()
+    // Keep other modules' imports pointing at the renamed module
+    const renameRefs = (imports: ModuleImport[]) =>
+      imports.map((imp) => (imp.module === oldName ? { ...imp, module: name } : imp))
+    set({
+      moduleName: name,
+      modules: modules.map((m) =>
+        m.id === activeModuleId ? { ...m, name } : { ...m, imports: renameRefs(m.imports) }
+      ),
+    })
+  },
+
+  setImports: (imports: ModuleImport[]) => set({ imports }),
+
+  getModules: () => {
+    const { modules, activeModuleId, moduleName, nodes, edges, imports } = get()
+    return modules.map((m) =>
+      m.id === activeModuleId ? { ...m, name: moduleName, nodes, edges, imports } : m
+    )
+  },
+
+  addModule: () => {
+    const modules = get().getModules()
+    const taken = new Set(modules.map((m) => m.name))
+    let n = modules.length + 1
+    while (taken.has(`Module${n}`)) n++
+    const module: WorkspaceModule = {
+      id: nanoid(8),
+      name: `Module${n}`,
+      nodes: [],
+      edges: [],
+      imports: [],
+    }
+    set({ modules: [...modules, module] })
+    get().switchModule(module.id)
+  },
+
+  switchModule: (id: string) => {
+    const modules = get().getModules()
+    const target = modules.find((m) => m.id === id)
+    if (!target || id === get().activeModuleId) return
+    // History entries belong to one canvas, so start fresh per module
+    set({
+      modules,
+      activeModuleId: id,
+      moduleName: target.name,
+      nodes: target.nodes,
+      edges: target.edges,
+      imports: target.imports,
+      selectedNodeId: null,
+      diagnostics: {},
+      moduleDiagnostics: [],
+      replay: null,
+      testResults: {},
+      history: [],
+      historyIndex: -1,
+    })
+  },
+
+  deleteModule: (id: string) => {
+    const modules = get().getModules()
+    if (modules.length <= 1) return
+    const removed = modules.find((m) => m.id === id)
+    const remaining = modules
+      .filter((m) => m.id !== id)
+      .map((m) => ({ ...m, imports: m.imports.filter((imp) => imp.module !== removed?.name) }))
+    if (id === get().activeModuleId) {
+      const next = remaining[0]
+      set({ modules: remaining, activeModuleId: '' })
+      get().switchModule(next.id)
+    } else {
+      const active = remaining.find((m) => m.id === get().activeModuleId)
+      set({ modules: remaining, imports: active?.imports ?? [] })
+    }
+  },
 
-  addDeclNode: (kind: DeclKind, x: number, y: number) => {
+  getProjects: () => {
+    const state = get()
+    const data: ProjectData = {
+      nodes: state.nodes,
+      edges: state.edges,
+      moduleName: state.moduleName,
+      imports: state.imports,
+      modules: state.getModules(),
+      activeModuleId: state.activeModuleId,
+      runConfigs: state.runConfigs,
+      activeRunConfigId: state.activeRunConfigId,
+      runHistory: state.runHistory,
+    }
+    return state.projects.map((p) => (p.id === state.activeProjectId ? { ...p, data } : p))
+  },
+
+  createProject: () => {
+    const projects = get().getProjects()
+    const taken = new Set(projects.map((p) => p.name))
+    let n = projects.length + 1
+    while (taken.has(`Project ${n}`)) n++
+    get().addProject(`Project ${n}`, emptyProjectData())
+  },
+
+  switchProject: (id: string) => {
+    const projects = get().getProjects()
+    const target = projects.find((p) => p.id === id)
+    if (!target || id === get().activeProjectId) return
+    const now = Date.now()
+    // Like a module switch, but everything tied to the old canvas goes
+    set({
+      ...target.data,
+      projects: projects.map((p) => (p.id === get().activeProjectId ? { ...p, updatedAt: now } : p)),
+      activeProjectId: id,
+      selectedNodeId: null,
+      diagnostics: {},
+      moduleDiagnostics: [],
+      replay: null,
+      exploration: null,
+      testResults: {},
+      history: [],
+      historyIndex: -1,
+    })
+  },
+
+  renameProject: (id: string, name: string) =>
+    set((s) => ({ projects: s.projects.map((p) => (p.id === id ? { ...p, name } : p)) })),
+
+  duplicateProject: (id: string) => {
+    const source = get().getProjects().find((p) => p.id === id)
+    if (!source) return
+    get().addProject(`${source.name} copy`, structuredClone(source.data))
+  },
+
+  deleteProject: (id: string) => {
+    const projects = get().getProjects()
+    // There is always a project to show
+    if (projects.length <= 1) return
+    if (id === get().activeProjectId) {
+      get().switchProject(projects.find((p) => p.id !== id)!.id)
+    }
+    set((s) => ({ projects: s.projects.filter((p) => p.id !== id) }))
+  },
+
+  addProject: (name: string, data: ProjectData) => {
+    const project: Project = { id: nanoid(8), name, updatedAt: Date.now(), data }
+    set({ projects: [...get().getProjects(), project] })
+    get().switchProject(project.id)
+  },
+
+  addDeclNode: (kind: DeclKind, x: number, y: number, data?: Partial<VisualDeclaration>) => {
     const id = nanoid(8)
     const defaults: Record<DeclKind, Partial<VisualDeclaration>> = {
       var: { name: 'myVar', type: 'int' },
       const: { name: 'MY_CONST', type: 'int' },
       val: { name: 'myVal', body: 'true' },
-      def: { name: 'myDef', params: '', body: 'true' },
-      action: { name: 'myAction', params: '', body: 'true' },
+      def: { name: 'myDef', params: [], body: 'true' },
+      action: { name: 'myAction', params: [], body: 'true' },
       type: { name: 'MyType', body: 'int' },
+      temporal: { name: 'myProperty', body: 'always(eventually(true))' },
       assume: { name: 'myAssumption', body: 'true' },
+      run: {
+        name: 'myTest',
+        body: 'init.then(step)',
+        scenario: { init: 'init', steps: [{ type: 'action', action: 'step', args: '' }] },
+      },
     }
-    const decl = createDeclaration(id, kind, defaults[kind])
+    const decl = createDeclaration(id, kind, { ...defaults[kind], ...data })
 
     const newNode: Node<AnyNodeData> = {
       id,
@@ -355,159 +1344,7 @@ export const useAppStore = create<AppState>()(persist((set, get) => ({
 
   addStateMachineNodes: (x: number, y: number) => {
     const decls = createStateMachineDecls(() => nanoid(8))
-
-    // decls: [balances, ADDRESSES, init, deposit, withdraw, step, no_negatives]
-    const balancesId = decls[0].id
-    const addressesId = decls[1].id
-    const initId = decls[2].id
-    const depositId = decls[3].id
-    const withdrawId = decls[4].id
-    const stepId = decls[5].id
-    const invId = decls[6].id
-
-    // Group IDs
-    const stateGroupId = nanoid(8)
-    const initGroupId = nanoid(8)
-    const actionsGroupId = nanoid(8)
-    const stepGroupId = nanoid(8)
-    const invGroupId = nanoid(8)
-
-    // Child positions inside groups (stacked vertically with room for card height)
-    const childX = GROUP_PADDING
-    const childY1 = GROUP_HEADER + 10
-    const childY2 = childY1 + 70   // pill ~50px + small gap
-
-    // Flow layout representing execution:
-    // 1. INIT initializes STATE (left to right)
-    // 2. STEP reads STATE and calls ACTIONS (center loop)
-    // 3. ACTIONS update STATE
-    // 4. INVARIANTS check STATE (below)
-    //
-    //    INIT ──→ STATE ←── ACTIONS
-    //               │           ↑
-    //               │         STEP
-    //               ↓
-    //          INVARIANTS
-
-    // Simple grid layout centered on (x, y)
-    // Groups are ~280px wide, use 450px spacing between columns
-    const col1 = x - 450   // Left (INIT)
-    const col2 = x         // Center (STATE, INVARIANTS)
-    const col3 = x + 450   // Right (ACTIONS, STEP)
-
-    const row1 = y              // Top (INIT, STATE, ACTIONS)
-    const row2 = row1 + 340     // Middle-right (STEP below ACTIONS)
-    const row3 = row1 + 350     // Bottom-center (INVARIANTS below STATE)
-
-    // Individual declaration nodes
-    const newNodes: Node<AnyNodeData>[] = [
-      // INIT - left side, initializes state
-      {
-        id: initGroupId,
-        type: 'role-group',
-        position: { x: col1, y: row1 },
-        data: { isGroup: true, role: 'init', label: 'INIT' },
-        style: { width: 1, height: 1 },
-      },
-      { id: initId, type: 'action', position: { x: childX, y: childY1 }, data: { ...decls[2] }, parentId: initGroupId },
-
-      // STATE - center, the core state variables
-      {
-        id: stateGroupId,
-        type: 'role-group',
-        position: { x: col2, y: row1 },
-        data: { isGroup: true, role: 'state', label: 'STATE' },
-        style: { width: 1, height: 1 },
-      },
-      { id: balancesId, type: 'state-var', position: { x: childX, y: childY1 }, data: { ...decls[0] }, parentId: stateGroupId },
-      { id: addressesId, type: 'val', position: { x: childX, y: childY2 }, data: { ...decls[1] }, parentId: stateGroupId },
-
-      // ACTIONS - right side top, helper actions that modify state
-      {
-        id: actionsGroupId,
-        type: 'role-group',
-        position: { x: col3, y: row1 },
-        data: { isGroup: true, role: 'actions', label: 'ACTIONS' },
-        style: { width: 1, height: 1 },
-      },
-      { id: depositId, type: 'action', position: { x: childX, y: childY1 }, data: { ...decls[3] }, parentId: actionsGroupId },
-      { id: withdrawId, type: 'action', position: { x: childX, y: childY2 }, data: { ...decls[4] }, parentId: actionsGroupId },
-
-      // STEP - right side below actions, orchestrates the step
-      {
-        id: stepGroupId,
-        type: 'role-group',
-        position: { x: col3, y: row2 },
-        data: { isGroup: true, role: 'step', label: 'STEP' },
-        style: { width: 1, height: 1 },
-      },
-      { id: stepId, type: 'action', position: { x: childX, y: childY1 }, data: { ...decls[5] }, parentId: stepGroupId },
-
-      // INVARIANTS - bottom center, checks state after each step
-      {
-        id: invGroupId,
-        type: 'role-group',
-        position: { x: col2, y: row3 },
-        data: { isGroup: true, role: 'invariant', label: 'INVARIANTS' },
-        style: { width: 1, height: 1 },
-      },
-      { id: invId, type: 'val', position: { x: childX, y: childY1 }, data: { ...decls[6] }, parentId: invGroupId },
-    ]
-
-    const newEdges: Edge[] = [
-      // INIT → STATE (left to right: init's right side to state's left side)
-      {
-        id: `e-${initGroupId}-${stateGroupId}`,
-        source: initGroupId,
-        target: stateGroupId,
-        sourceHandle: 'right',
-        targetHandle: 'left',
-        type: 'smoothstep',
-        animated: true,
-        label: 'initializes',
-        style: { stroke: '#4ade80', strokeWidth: 2 },
-        labelStyle: { fill: '#4ade80', fontSize: 10 },
-      },
-      // STEP → ACTIONS (bottom to top: step's top to actions' bottom)
-      {
-        id: `e-${stepGroupId}-${actionsGroupId}`,
-        source: stepGroupId,
-        target: actionsGroupId,
-        sourceHandle: 'top',
-        targetHandle: 'bottom',
-        type: 'smoothstep',
-        animated: true,
-        label: 'calls',
-        style: { stroke: '#a78bfa', strokeWidth: 2 },
-        labelStyle: { fill: '#a78bfa', fontSize: 10 },
-      },
-      // ACTIONS → STATE (right to left: actions' left side to state's right side)
-      {
-        id: `e-${actionsGroupId}-${stateGroupId}`,
-        source: actionsGroupId,
-        target: stateGroupId,
-        sourceHandle: 'left',
-        targetHandle: 'right',
-        type: 'smoothstep',
-        animated: true,
-        label: 'updates',
-        style: { stroke: '#fb923c', strokeWidth: 2 },
-        labelStyle: { fill: '#fb923c', fontSize: 10 },
-      },
-      // STATE → INVARIANTS (top to bottom: state's bottom to invariants' top)
-      {
-        id: `e-${stateGroupId}-${invGroupId}`,
-        source: stateGroupId,
-        target: invGroupId,
-        sourceHandle: 'bottom',
-        targetHandle: 'top',
-        type: 'smoothstep',
-        animated: true,
-        label: 'checked by',
-        style: { stroke: '#facc15', strokeWidth: 2 },
-        labelStyle: { fill: '#facc15', fontSize: 10 },
-      },
-    ]
+    const { nodes: newNodes, edges: newEdges } = layoutRoleGroups(decls, x, y)
 
     get().pushHistory()
     set((state) => ({
@@ -516,6 +1353,59 @@ export const useAppStore = create<AppState>()(persist((set, get) => ({
     }))
   },
 
+  importQuintModule: (source: string) => {
+    const [first, ...others] = parseQuintModules(source, () => nanoid(8))
+    const { nodes, edges } = layoutRoleGroups(first.decls, 0, 0)
+
+    // Further modules in the same file replace same-named workspace modules
+    let modules = get().getModules()
+    const activeModuleId = get().activeModuleId
+    for (const parsed of others) {
+      const layout = layoutRoleGroups(parsed.decls, 0, 0)
+      const existing = modules.find((m) => m.name === parsed.name && m.id !== activeModuleId)
+      const module: WorkspaceModule = {
+        id: existing?.id ?? nanoid(8),
+        name: parsed.name,
+        nodes: layout.nodes,
+        edges: layout.edges,
+        imports: parsed.imports,
+      }
+      modules = existing
+        ? modules.map((m) => (m.id === existing.id ? module : m))
+        : [...modules, module]
+    }
+
+    get().pushHistory()
+    set({
+      nodes,
+      edges,
+      moduleName: first.name,
+      imports: first.imports,
+      modules: modules.map((m) => (m.id === activeModuleId ? { ...m, name: first.name } : m)),
+      selectedNodeId: null,
+    })
+  },
+
+  syncFromQuint: (source: string) => {
+    const parsed = parseQuintModule(source, () => nanoid(8))
+    const { nodes, moduleName, imports, edges, selectedNodeId } = get()
+    const merged = mergeParsedDecls(nodes, parsed.decls)
+    const importsChanged = JSON.stringify(parsed.imports) !== JSON.stringify(imports)
+    if (!merged.changed && !importsChanged && parsed.name === moduleName) return
+
+    get().pushHistory()
+    set({
+      nodes: merged.nodes,
+      edges: edges.filter(
+        (e) => !merged.removedIds.has(e.source) && !merged.removedIds.has(e.target)
+      ),
+      imports: parsed.imports,
+      selectedNodeId:
+        selectedNodeId && merged.removedIds.has(selectedNodeId) ? null : selectedNodeId,
+    })
+    if (parsed.name !== moduleName) get().setModuleName(parsed.name)
+  },
+
   addNodeToGroup: (groupId: string) => {
     // Read the group's role from its data
     const groupNode = get().nodes.find((n) => n.id === groupId)
@@ -528,26 +1418,17 @@ export const useAppStore = create<AppState>()(persist((set, get) => ({
     const roleConfig: Record<string, { kind: DeclKind; nodeType: string; defaults: Partial<VisualDeclaration> }> = {
       state: { kind: 'var', nodeType: 'state-var', defaults: { name: 'myVar', type: 'int' } },
       init: { kind: 'action', nodeType: 'action', defaults: { name: 'newInit', body: 'true', role: 'init' } },
-      actions: { kind: 'action', nodeType: 'action', defaults: { name: 'newAction', params: '', body: 'true' } },
-      step: { kind: 'action', nodeType: 'action', defaults: { name: 'step', params: '', body: 'true', role: 'step' } },
+      actions: { kind: 'action', nodeType: 'action', defaults: { name: 'newAction', params: [], body: 'true' } },
+      step: { kind: 'action', nodeType: 'action', defaults: { name: 'step', params: [], body: 'true', role: 'step' } },
       invariant: { kind: 'val', nodeType: 'val', defaults: { name: 'newInvariant', body: 'true', role: 'invariant' } },
     }
     const config = roleConfig[groupRole] ?? roleConfig.step
     const decl = createDeclaration(id, config.kind, config.defaults)
 
-    // Find the lowest child in this group to place the new one below it
-    const children = get().nodes.filter((n) => n.parentId === groupId)
-    let maxBottom = GROUP_HEADER + 5
-    for (const child of children) {
-      const h = child.measured?.height ?? 80
-      const bottom = child.position.y + h + COLLISION_PAD
-      if (bottom > maxBottom) maxBottom = bottom
-    }
-
     const newNode: Node<AnyNodeData> = {
       id,
       type: config.nodeType,
-      position: { x: GROUP_PADDING, y: maxBottom },
+      position: { x: GROUP_PADDING, y: nextChildY(get().nodes, groupId) },
       data: { ...decl },
       parentId: groupId,
     }
@@ -578,6 +1459,9 @@ export const useAppStore = create<AppState>()(persist((set, get) => ({
 
   setSelectedNode: (id) => set({ selectedNodeId: id }),
   toggleCodePreview: () => set((s) => ({ showCodePreview: !s.showCodePreview })),
+
+  toggleDependencies: (kind) =>
+    set((s) => ({ showDependencies: { ...s.showDependencies, [kind]: !s.showDependencies[kind] } })),
   setPanelWidth: (width) => set({ panelWidth: width }),
 
   clearCanvas: () => {
@@ -591,18 +1475,148 @@ export const useAppStore = create<AppState>()(persist((set, get) => ({
   },
 
   getQuintCode: () => {
-    const { nodes, moduleName } = get()
-    const decls = nodes
-      .filter((n) => n.type !== 'role-group')
-      .map((n) => n.data as VisualDeclaration)
-    return declsToQuint(moduleName, decls)
+    const { nodes, moduleName, imports } = get()
+    return moduleCode(moduleName, nodes, imports).code
+  },
+
+  getQuintCodeWithSourceMap: () => {
+    const { nodes, moduleName, imports } = get()
+    return moduleCode(moduleName, nodes, imports)
   },
+
+  startReplay: (trace, violated) => set({ replay: { trace, step: 0, violated } }),
+
+  setReplayStep: (step) => {
+    const { replay } = get()
+    if (!replay) return
+    const last = replay.trace.states.length - 1
+    set({ replay: { ...replay, step: Math.min(Math.max(step, 0), last) } })
+  },
+
+  stopReplay: () => set({ replay: null }),
+
+  setTestResults: (results) => set((s) => ({ testResults: { ...s.testResults, ...results } })),
+
+  addRunConfig: () => {
+    const { runConfigs, activeRunConfigId } = get()
+    const base = runConfigs.find((c) => c.id === activeRunConfigId) ?? DEFAULT_RUN_CONFIG
+    const config = { ...base, id: nanoid(8), name: `Config ${runConfigs.length + 1}` }
+    set({ runConfigs: [...runConfigs, config], activeRunConfigId: config.id })
+  },
+
+  updateRunConfig: (id, updates) =>
+    set((s) => ({ runConfigs: s.runConfigs.map((c) => (c.id === id ? { ...c, ...updates } : c)) })),
+
+  deleteRunConfig: (id) => {
+    const { runConfigs, activeRunConfigId } = get()
+    // There is always at least one configuration to run with
+    if (runConfigs.length <= 1) return
+    const remaining = runConfigs.filter((c) => c.id !== id)
+    set({
+      runConfigs: remaining,
+      activeRunConfigId: activeRunConfigId === id ? remaining[0].id : activeRunConfigId,
+    })
+  },
+
+  selectRunConfig: (id) => set({ activeRunConfigId: id }),
+
+  addRunHistory: (entry) =>
+    set((s) => ({ runHistory: [entry, ...s.runHistory].slice(0, MAX_RUN_HISTORY) })),
+
+  clearRunHistory: () => set({ runHistory: [] }),
+
+  addReplEntry: (entry) => set((s) => ({ replLog: [...s.replLog, entry] })),
+
+  clearReplLog: () => set({ replLog: [] }),
+
+  setExploration: (exploration) => {
+    const { replay } = get()
+    const last = exploration?.path[exploration.path.length - 1]
+    if (!exploration || !last) {
+      // Leave a replay started from a run alone
+      set({ exploration, replay: replay?.exploring ? null : replay })
+      return
+    }
+    set({
+      exploration,
+      replay: {
+        trace: explorerTrace(exploration.path),
+        step: exploration.path.length - 1,
+        violated: last.violated,
+        exploring: true,
+      },
+    })
+  },
+
+  setDiagnostics: (byNode, unmapped) => set({ diagnostics: byNode, moduleDiagnostics: unmapped }),
+
+  getWorkspaceFiles: () =>
+    get()
+      .getModules()
+      .map((m) => ({ name: m.name, code: moduleCode(m.name, m.nodes, m.imports).code })),
 }), {
   name: 'quint-whiteboard',
+  version: PERSIST_VERSION,
+  storage: persistStorage,
+  migrate: migratePersisted,
+  merge: (persisted, current) => {
+    // Nothing saved yet
+    if (!persisted) return current
+    const { state, repairs } = checkPersisted(persisted)
+    reportRepairs(repairs)
+    return { ...current, ...state }
+  },
+  onRehydrateStorage: () => (_state, error) => {
+    if (error) reportLoadFailure(error)
+  },
   partialize: (state) => ({
     nodes: state.nodes,
     edges: state.edges,
     moduleName: state.moduleName,
+    imports: state.imports,
+    // The active module's canvas is already stored above
+    modules: state.modules.map((m) =>
+      m.id === state.activeModuleId ? { ...m, nodes: [], edges: [] } : m
+    ),
+    activeModuleId: state.activeModuleId,
+    runConfigs: state.runConfigs,
+    activeRunConfigId: state.activeRunConfigId,
+    runHistory: state.runHistory,
+    // The active project's data is already stored above
+    projects: state.projects.map((p) =>
+      p.id === state.activeProjectId ? { ...p, data: { ...p.data, nodes: [], edges: [], modules: [] } } : p
+    ),
+    activeProjectId: state.activeProjectId,
     panelWidth: state.panelWidth,
   }),
 }))
+
+/** Whether two node lists carry the same declaration data (positions may differ) */
+function sameDecls(a: Node<AnyNodeData>[], b: Node<AnyNodeData>[]): boolean {
+  return a.length === b.length && a.every((n, i) => n.data === b[i].data)
+}
+
+function refreshWarnings() {
+  const state = useAppStore.getState()
+  const others = new Map(
+    state.modules
+      .filter((m) => m.id !== state.activeModuleId)
+      .map((m) => [m.name, declsOfNodes(m.nodes)])
+  )
+  useAppStore.setState({ warnings: checkDeclarations(declsOfNodes(state.nodes), state.imports, others) })
+}
+
+// Static checks are cheap, so rerun them synchronously whenever declarations,
+// imports or other modules change (updateDeclNode, sync, undo, module switch...)
+try {
+  refreshWarnings()
+} catch (e) {
+  // Saved data that got past the checks but still breaks them: offer recovery instead of a blank page
+  reportLoadFailure(e)
+}
+useAppStore.subscribe((state, prev) => {
+  if (sameDecls(state.nodes, prev.nodes) && state.imports === prev.imports && state.modules === prev.modules) {
+    return
+  }
+  refreshWarnings()
+})
@@ -0,0 +1,46 @@
+import { type VisualDeclaration, generateCombinedActions } from './spec'
+
+export interface TestResult {
+  ok: boolean
+  /** The part of `quint test` output about this test */
+  output: string
+}
+
+/** Names of every `run` in the module, including the generated test run */
+export function testNames(decls: VisualDeclaration[]): string[] {
+  const declared = decls.filter((d) => d.kind === 'run' && d.name).map((d) => d.name)
+  const generated = generateCombinedActions(decls).flatMap((code) => {
+    const m = code.match(/^\s*run\s+(\w+)/)
+    return m ? [m[1]] : []
+  })
+  return [...new Set([...declared, ...generated])]
+}
+
+/**
+ * Split `quint test` output into a result per test. Passing tests print
+ * `ok name passed N test(s)`, failing ones `1) name failed after N test(s)`
+ * followed later by a `1) Module::name:` section with the details.
+ */
+export function parseTestOutput(output: string, names: string[]): Record<string, TestResult> {
+  const results: Record<string, TestResult> = {}
+  const detailHeaders = [...output.matchAll(/^\s*\d+\)\s+\w+::(\w+):\s*$/gm)]
+
+  for (const name of names) {
+    const passed = output.match(new RegExp(`^\\s*(?:ok|✓)\\s+${name}\\s+passed.*$`, 'm'))
+    if (passed) {
+      results[name] = { ok: true, output: passed[0].trim() }
+      continue
+    }
+    const failed = output.match(new RegExp(`^\\s*\\d+\\)\\s+${name}\\s+failed.*$`, 'm'))
+    if (!failed) continue
+
+    const i = detailHeaders.findIndex((h) => h[1] === name)
+    const details =
+      i === -1
+        ? ''
+        : output.slice(detailHeaders[i].index, detailHeaders[i + 1]?.index ?? output.length).trim()
+    results[name] = { ok: false, output: details || failed[0].trim() }
+  }
+
+  return results
+}
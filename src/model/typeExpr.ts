@@ -0,0 +1,181 @@
+/** A Quint type as a tree, for building `var`/`const` types without typing them */
+export type TypeExpr =
+  | { kind: 'int' | 'str' | 'bool' }
+  | { kind: 'set' | 'list'; elem: TypeExpr }
+  | { kind: 'map'; key: TypeExpr; value: TypeExpr }
+  | { kind: 'tuple'; items: TypeExpr[] }
+  | { kind: 'record'; fields: { name: string; type: TypeExpr }[] }
+  /** A declared type (or type parameter), with arguments for generic ones */
+  | { kind: 'named'; name: string; args: TypeExpr[] }
+
+const BASIC = new Set(['int', 'str', 'bool'])
+
+function tokenize(text: string): string[] | null {
+  const tokens: string[] = []
+  const re = /\s*(->|[A-Za-z_]\w*|[[\](){},:])/y
+  let pos = 0
+  while (pos < text.length) {
+    if (!text.slice(pos).trim()) break
+    re.lastIndex = pos
+    const m = re.exec(text)
+    if (!m) return null
+    tokens.push(m[1])
+    pos = re.lastIndex
+  }
+  return tokens
+}
+
+/**
+ * Parse a type written in Quint syntax. Returns null for anything the
+ * builder can't represent (operator types, row variables, syntax errors).
+ */
+export function parseTypeExpr(text: string): TypeExpr | null {
+  const tokens = tokenize(text)
+  if (!tokens || tokens.length === 0) return null
+  let i = 0
+  const peek = () => tokens[i]
+  const take = (expected?: string) => {
+    const t = tokens[i]
+    if (t === undefined || (expected !== undefined && t !== expected)) throw new Error()
+    i++
+    return t
+  }
+  const isIdent = (t: string | undefined) => t !== undefined && /^[A-Za-z_]\w*$/.test(t)
+
+  /** `t, t, ...` up to (not including) `close` */
+  const list = (close: string): TypeExpr[] => {
+    const items = [type()]
+    while (peek() === ',') {
+      take(',')
+      if (peek() === close) break
+      items.push(type())
+    }
+    return items
+  }
+
+  const atom = (): TypeExpr => {
+    const t = take()
+    if (t === '(') {
+      const items = list(')')
+      take(')')
+      return items.length === 1 ? items[0] : { kind: 'tuple', items }
+    }
+    if (t === '{') {
+      const fields: { name: string; type: TypeExpr }[] = []
+      while (peek() !== '}') {
+        const name = take()
+        if (!isIdent(name)) throw new Error()
+        take(':')
+        fields.push({ name, type: type() })
+        if (peek() !== ',') break
+        take(',')
+      }
+      take('}')
+      return { kind: 'record', fields }
+    }
+    if (!isIdent(t)) throw new Error()
+    const args: TypeExpr[] = []
+    if (peek() === '[') {
+      take('[')
+      args.push(...list(']'))
+      take(']')
+    }
+    if (BASIC.has(t) && args.length === 0) return { kind: t as 'int' | 'str' | 'bool' }
+    if ((t === 'Set' || t === 'List') && args.length === 1) {
+      return { kind: t === 'Set' ? 'set' : 'list', elem: args[0] }
+    }
+    return { kind: 'named', name: t, args }
+  }
+
+  // `->` binds loosest and associates to the right
+  const type = (): TypeExpr => {
+    const left = atom()
+    if (peek() !== '->') return left
+    take('->')
+    return { kind: 'map', key: left, value: type() }
+  }
+
+  try {
+    const result = type()
+    return i === tokens.length ? result : null
+  } catch {
+    return null
+  }
+}
+
+/** Render a type tree back to Quint syntax */
+export function typeExprToQuint(t: TypeExpr): string {
+  switch (t.kind) {
+    case 'int':
+    case 'str':
+    case 'bool':
+      return t.kind
+    case 'set':
+      return `Set[${typeExprToQuint(t.elem)}]`
+    case 'list':
+      return `List[${typeExprToQuint(t.elem)}]`
+    case 'map': {
+      const key = typeExprToQuint(t.key)
+      return `${t.key.kind === 'map' ? `(${key})` : key} -> ${typeExprToQuint(t.value)}`
+    }
+    case 'tuple':
+      return `(${t.items.map(typeExprToQuint).join(', ')})`
+    case 'record':
+      return t.fields.length === 0
+        ? '{}'
+        : `{ ${t.fields.map((f) => `${f.name || 'unnamed'}: ${typeExprToQuint(f.type)}`).join(', ')} }`
+    case 'named':
+      return t.args.length > 0 ? `${t.name}[${t.args.map(typeExprToQuint).join(', ')}]` : t.name
+  }
+}
+
+/**
+ * Problems with a type tree given the declared types, as a map from type name
+ * (without parameters) to its number of parameters, e.g. `Option[a]` → 1.
+ */
+export function checkTypeExpr(t: TypeExpr, declared: Map<string, number>): string[] {
+  switch (t.kind) {
+    case 'int':
+    case 'str':
+    case 'bool':
+      return []
+    case 'set':
+    case 'list':
+      return checkTypeExpr(t.elem, declared)
+    case 'map':
+      return [...checkTypeExpr(t.key, declared), ...checkTypeExpr(t.value, declared)]
+    case 'tuple':
+      return [
+        ...(t.items.length < 2 ? ['A tuple needs at least two elements'] : []),
+        ...t.items.flatMap((item) => checkTypeExpr(item, declared)),
+      ]
+    case 'record': {
+      const names = t.fields.map((f) => f.name)
+      return [
+        ...names.filter((n) => !/^[A-Za-z_]\w*$/.test(n)).map((n) => `"${n}" is not a valid field name`),
+        ...names.filter((n, i) => names.indexOf(n) !== i).map((n) => `Field "${n}" appears twice`),
+        ...t.fields.flatMap((f) => checkTypeExpr(f.type, declared)),
+      ]
+    }
+    case 'named': {
+      const arity = declared.get(t.name)
+      const own =
+        arity === undefined
+          ? [`Type "${t.name}" is not declared`]
+          : arity !== t.args.length
+            ? [`"${t.name}" takes ${arity} type argument${arity === 1 ? '' : 's'}, not ${t.args.length}`]
+            : []
+      return [...own, ...t.args.flatMap((arg) => checkTypeExpr(arg, declared))]
+    }
+  }
+}
+
+/** Declared type names with their number of parameters, from `type` declaration names */
+export function declaredTypes(names: string[]): Map<string, number> {
+  const types = new Map<string, number>()
+  for (const name of names) {
+    const m = name.match(/^(\w+)(?:\[([^\]]*)\])?$/)
+    if (m) types.set(m[1], m[2] ? m[2].split(',').filter((p) => p.trim()).length : 0)
+  }
+  return types
+}